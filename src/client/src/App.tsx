@@ -3,53 +3,22 @@ import JSZip from 'jszip';
 import mermaid from 'mermaid';
 import MarkdownPreview from '@uiw/react-markdown-preview';
 import rehypeMermaid from 'rehype-mermaid';
-import { timeToSecs } from './utils/utils';
 import { useAppStore } from './store';
-import { markdownToRtf, downloadFile, exportToAss, exportToJson } from './utils/exportUtils';
+import { DiarizedSegment, FrameOptions } from './types';
+import { markdownToRtf, downloadFile } from './utils/exportUtils';
+import { importSubtitles, cuesToTranscript } from './utils/importUtils';
+import { replaceImagePlaceholders } from '@screenguide/shared/timecode';
+import { parseGlossary, formatGlossary } from './utils/glossary';
+import { embedFrames, addSessionFiles } from './utils/session';
 import VideoPlayer from './components/VideoPlayer';
 import TranscriptEditor from './components/TranscriptEditor';
 import ContextModal from './components/ContextModal';
 import RewriteModal from './components/RewriteModal';
-
-const MAX_FILE_SIZE_MB = 500;
-const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
-
-const extractFrame = (videoUrl: string, time: number): Promise<Blob> => {
-  return new Promise((resolve, reject) => {
-    const video = document.createElement('video');
-    video.style.display = 'none';
-    video.muted = true;
-    video.crossOrigin = 'anonymous';
-
-    video.onseeked = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-        canvas.toBlob((blob) => {
-          document.body.removeChild(video);
-          if (blob) resolve(blob);
-          else reject(new Error('Canvas to Blob conversion failed.'));
-        }, 'image/png');
-      } else {
-        document.body.removeChild(video);
-        reject(new Error('Could not get canvas context.'));
-      }
-    };
-    video.onloadedmetadata = () => {
-      video.currentTime = Math.max(0, Math.min(time, video.duration));
-    };
-    video.onerror = () => {
-      document.body.removeChild(video);
-      reject(new Error(`Video loading error: ${video.error?.message || 'unknown'}`));
-    };
-
-    video.src = videoUrl;
-    document.body.appendChild(video);
-  });
-};
+import ProjectPicker from './components/ProjectPicker';
+import SessionRecovery from './components/SessionRecovery';
+import SearchPanel from './components/SearchPanel';
+import BatchModal from './components/BatchModal';
+import { MAX_FILE_SIZE_MB, MAX_FILE_SIZE_BYTES } from './utils/utils';
 
 export default function App() {
   const store = useAppStore();
@@ -61,16 +30,22 @@ export default function App() {
     return 'light';
   });
   const [isContextModalOpen, setIsContextModalOpen] = useState(false);
+  const [isBatchModalOpen, setIsBatchModalOpen] = useState(false);
   const [pendingFile, setPendingFile] = useState<File | null>(null);
   const [localDescription, setLocalDescription] = useState('');
   const [localPrompt, setLocalPrompt] = useState('');
+  const [localGlossary, setLocalGlossary] = useState('');
   const [skipAudio, setSkipAudio] = useState(false);
+  const [chunked, setChunked] = useState(false);
+  const [importedTranscript, setImportedTranscript] = useState<{ fileName: string; segments: DiarizedSegment[] } | null>(null);
+  const [transcriptError, setTranscriptError] = useState('');
   const [isRewriteModalOpen, setIsRewriteModalOpen] = useState(false);
   const [selectionRange, setSelectionRange] = useState<{ start: number; end: number } | null>(null);
   const [rewritePrompt, setRewritePrompt] = useState('');
   const [isRewriting, setIsRewriting] = useState(false);
   const [isPreviewCollapsed, setIsPreviewCollapsed] = useState(false);
   const [aiPopup, setAiPopup] = useState<{ x: number; y: number } | null>(null);
+  const [frameOptions, setFrameOptions] = useState<FrameOptions>({ format: 'png', quality: 85 });
   
   const editorRef = useRef<HTMLTextAreaElement>(null);
   const mediaRecorder = useRef<MediaRecorder | null>(null);
@@ -91,16 +66,33 @@ export default function App() {
       return;
     }
     setPendingFile(file);
+    setImportedTranscript(null);
+    setTranscriptError('');
+    // The open project's glossary is offered again, since recordings of one product share their terms.
+    setLocalGlossary(formatGlossary(store.glossary));
     setIsContextModalOpen(true);
   };
 
+  const handleTranscriptSelect = async (file: File | null) => {
+    setTranscriptError('');
+    setImportedTranscript(null);
+    if (!file) return;
+    try {
+      setImportedTranscript({ fileName: file.name, segments: cuesToTranscript(await importSubtitles(file)) });
+    } catch (e: any) {
+      setTranscriptError(e?.message || 'Failed to read the transcript.');
+    }
+  };
+
   const startProcessing = async () => {
     if (!pendingFile) return;
     setIsContextModalOpen(false);
-    await store.startProcessing(pendingFile, localDescription, localPrompt, skipAudio);
+    await store.startProcessing(pendingFile, localDescription, localPrompt, parseGlossary(localGlossary), skipAudio, chunked, importedTranscript?.segments);
     setPendingFile(null);
     setLocalDescription('');
     setLocalPrompt('');
+    setImportedTranscript(null);
+    setTranscriptError('');
   };
 
   const handleRecord = async (type: 'screen' | 'camera' | 'audio') => {
@@ -145,30 +137,11 @@ export default function App() {
   };
 
   const handleExportZip = async () => {
-    if (!store.generatedContent || !store.videoUrl || store.outputFormat === 'diagram') return;
+    if (!store.generatedContent || !store.mediaId || store.outputFormat === 'diagram') return;
     useAppStore.setState({ isZipping: true, error: '' });
     try {
       const zip = new JSZip();
-      let updatedContent = store.generatedContent;
-      const imagePlaceholders = [...store.generatedContent.matchAll(/\[Image: (.*?)(?:\s+at\s+([0-9:.]+))?\]/gi)];
-      if (imagePlaceholders.length > 0) {
-        const imagesFolder = zip.folder("images")!;
-        const replacements = await Promise.all(imagePlaceholders.map(async (match, index) => {
-          const [placeholder, description, timecode] = match;
-          if (timecode) {
-            try {
-              const blob = await extractFrame(store.videoUrl, timeToSecs(timecode));
-              const imageName = `image-${index + 1}.png`;
-              imagesFolder.file(imageName, blob);
-              return { placeholder, replacementText: `![${description}](./images/${imageName})` };
-            } catch (e) { console.warn(`Failed to extract frame: ${placeholder}`, e); }
-          }
-          return null;
-        }));
-        replacements.filter(Boolean).forEach(rep => {
-          updatedContent = updatedContent.replace(rep!.placeholder, rep!.replacementText);
-        });
-      }
+      const updatedContent = await embedFrames(store.generatedContent, store.mediaId, frameOptions, zip.folder("images")!, './images/');
       zip.file('guide.md', updatedContent);
       const zipBlob = await zip.generateAsync({ type: 'blob' });
       downloadFile('ScreenGuide-Export.zip', zipBlob, 'application/zip');
@@ -183,18 +156,18 @@ export default function App() {
     useAppStore.setState({ isZipping: true, error: '' });
     try {
       const zip = new JSZip();
-      zip.file("session.json", JSON.stringify({
-        userContext: { videoDescription: store.videoDescription, userPrompt: store.userPrompt },
-        rawData: { diarizedTranscript: store.diarizedTranscript, timecodedCaptions: store.timecodedCaptions },
-        generatedOutput: { format: store.outputFormat, content: store.generatedContent },
-        timestamp: new Date().toISOString(),
-      }, null, 2));
-
-      if (store.videoFile) zip.folder("video")!.file(store.videoFile.name, store.videoFile);
-
-      const subtitlesFolder = zip.folder("subtitles")!;
-      subtitlesFolder.file('transcript.ass', exportToAss(store.diarizedTranscript, store.timecodedCaptions));
-      subtitlesFolder.file('transcript.json', exportToJson(store.diarizedTranscript, store.timecodedCaptions));
+      await addSessionFiles(zip, {
+        mediaId: store.mediaId,
+        videoFile: store.videoFile,
+        description: store.videoDescription,
+        prompt: store.userPrompt,
+        glossary: store.glossary,
+        format: store.outputFormat,
+        diarizedTranscript: store.diarizedTranscript,
+        timecodedCaptions: store.timecodedCaptions,
+        speakers: store.speakers,
+        content: store.generatedContent,
+      }, frameOptions);
 
       const zipBlob = await zip.generateAsync({ type: 'blob' });
       downloadFile('ScreenGuide-Session.zip', zipBlob, 'application/zip');
@@ -225,14 +198,19 @@ export default function App() {
   };
 
   const isLoading = store.isProcessingVideo || store.isGenerating;
-  const processContentForPreview = (content: string) => content.replace(
-    /\[Image: (.*?)(?:\s+at\s+[0-9:.]+)?\]/gim,
-    '<div class="border border-dashed border-[--dashed-border] bg-[--background-secondary] p-4 rounded-lg my-4 text-center text-[--text-light]">🖼️ $1</div>'
+  const isStreaming = store.isGenerating && !!store.generatedContent;
+  const processContentForPreview = (content: string) => replaceImagePlaceholders(content, ({ description }) =>
+    `<div class="border border-dashed border-[--dashed-border] bg-[--background-secondary] p-4 rounded-lg my-4 text-center text-[--text-light]">🖼️ ${description}</div>`
   );
 
   return (
     <main className="font-mono bg-[--background] text-[--text] flex flex-col w-screen h-screen">
       <header className="px-8 py-4 border-b border-[--border] text-center relative flex justify-center items-center">
+        <div className="absolute left-8 top-1/2 -translate-y-1/2 flex gap-2">
+          <ProjectPicker />
+          <SessionRecovery />
+          <SearchPanel />
+        </div>
         <div>
           <h1 className="text-2xl">ScreenGuide AI</h1>
           <p className="text-sm text-[--text-light]">Transform Screen Recordings into Technical Documentation</p>
@@ -254,6 +232,11 @@ export default function App() {
                   <p className="text-sm text-[--text-light]">or</p>
                   <label htmlFor="file-upload" className="cursor-pointer inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]">Upload File</label>
                   <input id="file-upload" type="file" accept="video/*" onChange={e => handleFileSelect(e.target.files?.[0] || null)} className="hidden" value="" />
+                  <div className="flex gap-2">
+                    <button onClick={() => setIsBatchModalOpen(true)} className="flex-1 inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]"><span className="material-symbols-outlined text-base leading-none">library_add</span> Batch</button>
+                    <label htmlFor="session-import" className="flex-1 cursor-pointer inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]"><span className="material-symbols-outlined text-base leading-none">unarchive</span> Import Session</label>
+                    <input id="session-import" type="file" accept=".zip,application/zip" onChange={e => e.target.files?.[0] && store.importSession(e.target.files[0])} className="hidden" value="" />
+                  </div>
                   <p className="text-xs text-[--text-light]">Max file size: {MAX_FILE_SIZE_MB}MB</p>
                 </div>
                 <div className="flex-1 border-2 border-dashed border-[--dashed-border] rounded-lg p-4 text-center flex flex-col justify-center gap-2">
@@ -277,13 +260,15 @@ export default function App() {
               <div className="bg-[--error-bg] text-[--error-text] border border-[--error-border] p-4 rounded-lg mt-4 whitespace-pre-wrap flex flex-col gap-3 items-start">
                 <span>{store.error}</span>
                 {store.captioningFailed && <button onClick={store.retryCaptions} disabled={store.isRetryingCaptions} className="bg-transparent border border-current text-current px-2 py-1 text-sm rounded-md hover:bg-opacity-10 hover:bg-black dark:hover:bg-opacity-10 dark:hover:bg-white inline-flex items-center gap-2"><span className="material-symbols-outlined text-base leading-none">refresh</span> {store.isRetryingCaptions ? `Retrying... (${Math.round(store.progress)}%)` : 'Retry'}</button>}
+                {store.isRetryingCaptions && <button onClick={store.cancelProcessing} className="bg-transparent border border-current text-current px-2 py-1 text-sm rounded-md hover:bg-opacity-10 hover:bg-black dark:hover:bg-opacity-10 dark:hover:bg-white inline-flex items-center gap-2"><span className="material-symbols-outlined text-base leading-none">close</span> Cancel</button>}
+                {store.retry && !store.captioningFailed && <button onClick={store.retryFailedAction} className="bg-transparent border border-current text-current px-2 py-1 text-sm rounded-md hover:bg-opacity-10 hover:bg-black dark:hover:bg-opacity-10 dark:hover:bg-white inline-flex items-center gap-2"><span className="material-symbols-outlined text-base leading-none">refresh</span> Retry</button>}
               </div>
             )}
-            <div className={`mb-8 mt-4 ${!store.videoBase64 && 'opacity-40 pointer-events-none'}`}>
+            <div className={`mb-8 mt-4 ${!store.mediaId && 'opacity-40 pointer-events-none'}`}>
               <h2 className="text-lg pb-2 border-b border-[--border] mb-4">2. Review Transcription & Captions</h2>
               <TranscriptEditor />
             </div>
-            <div className={`mb-8 ${!store.videoBase64 && 'opacity-40 pointer-events-none'}`}>
+            <div className={`mb-8 ${!store.mediaId && 'opacity-40 pointer-events-none'}`}>
               <h2 className="text-lg pb-2 border-b border-[--border] mb-4">3. Choose Output Format</h2>
               <div className="grid grid-cols-2 gap-4">
                 {(['guide', 'article', 'slides', 'diagram'] as const).map(f => (
@@ -294,8 +279,8 @@ export default function App() {
                 ))}
               </div>
             </div>
-            <div className={`mb-8 ${!store.videoBase64 && 'opacity-40 pointer-events-none'}`}>
-              <button className="w-full py-3 bg-[--primary-light] dark:bg-[--primary-dark] text-[--primary-text-light] dark:text-[--primary-text-dark] border-none text-base rounded-lg hover:opacity-90 disabled:opacity-50" onClick={store.generateContent} disabled={!store.videoBase64 || isLoading}>
+            <div className={`mb-8 ${!store.mediaId && 'opacity-40 pointer-events-none'}`}>
+              <button className="w-full py-3 bg-[--primary-light] dark:bg-[--primary-dark] text-[--primary-text-light] dark:text-[--primary-text-dark] border-none text-base rounded-lg hover:opacity-90 disabled:opacity-50" onClick={store.generateContent} disabled={!store.mediaId || isLoading}>
                 ▶️ Generate Content
               </button>
             </div>
@@ -308,7 +293,9 @@ export default function App() {
             <div className="flex justify-between items-center px-6 py-4 border-b border-[--border] flex-shrink-0">
               <h2 className="text-lg border-none m-0 p-0">Editor</h2>
               <div className="flex gap-2 flex-wrap justify-end">
-                {store.videoBase64 && !isLoading && <button className="inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary] disabled:opacity-50" onClick={store.generateSummary} disabled={store.isSummarizing}><span className="material-symbols-outlined text-base leading-none">summarize</span> {store.isSummarizing ? 'Summarizing...' : 'Summarize'}</button>}
+                {isStreaming && <button onClick={store.stopGenerating} className="inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]"><span className="material-symbols-outlined text-base leading-none">stop</span> Stop generating</button>}
+                {store.mediaId && !isLoading && <button className="inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary] disabled:opacity-50" onClick={store.generateSummary} disabled={store.isSummarizing}><span className="material-symbols-outlined text-base leading-none">summarize</span> {store.isSummarizing ? 'Summarizing...' : 'Summarize'}</button>}
+                {store.isSummarizing && <button onClick={store.stopGenerating} className="inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]"><span className="material-symbols-outlined text-base leading-none">stop</span> Stop summarizing</button>}
                 {store.generatedContent && !isLoading && (
                   <>
                     <button onClick={() => navigator.clipboard.writeText(store.generatedContent)} className="inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]"><span className="material-symbols-outlined text-base leading-none">content_copy</span></button>
@@ -330,21 +317,28 @@ export default function App() {
               </div>
             )}
             <div className="relative flex-1">
-              {isLoading && (
+              {isLoading && !isStreaming && (
                 <div className="absolute inset-0 bg-[--background] bg-opacity-90 flex flex-col justify-center items-center z-10 gap-4">
                   <div className="w-12 h-12 border-4 border-[--border] border-t-blue-500 rounded-full animate-spin"></div>
                   <p className="text-lg">{store.loadingMessage}</p>
-                  <div className="w-4/5 max-w-sm h-2.5 bg-[--background-secondary] rounded-full overflow-hidden">
-                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${store.progress}%` }}></div>
-                  </div>
-                  <p className="font-mono text-sm text-[--text-light]">{Math.round(store.progress)}%</p>
+                  {store.isProcessingVideo && (
+                    <>
+                      <div className="w-4/5 max-w-sm h-2.5 bg-[--background-secondary] rounded-full overflow-hidden">
+                        <div className="h-full bg-blue-500 transition-all" style={{ width: `${store.progress}%` }}></div>
+                      </div>
+                      <p className="font-mono text-sm text-[--text-light]">{Math.round(store.progress)}%</p>
+                      <button onClick={store.cancelProcessing} className="inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]"><span className="material-symbols-outlined text-base leading-none">close</span> Cancel</button>
+                    </>
+                  )}
+                  {store.isGenerating && <button onClick={store.stopGenerating} className="inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]"><span className="material-symbols-outlined text-base leading-none">stop</span> Stop</button>}
                 </div>
               )}
               {!isLoading && !store.generatedContent && <div className="flex justify-center items-center h-full text-[--text-light]"><p>Your generated content will appear here.</p></div>}
-              {!isLoading && store.generatedContent && (
+              {(!isLoading || isStreaming) && store.generatedContent && (
                 <textarea 
                   ref={editorRef} 
                   value={store.generatedContent} 
+                  readOnly={store.isGenerating}
                   onChange={e => {
                     store.setGeneratedContent(e.target.value);
                     setAiPopup(null);
@@ -358,6 +352,25 @@ export default function App() {
               )}
             </div>
             <div className="flex justify-end items-center px-6 py-4 border-t border-[--border] flex-shrink-0 gap-2">
+              {store.generatedContent && !isLoading && store.outputFormat !== 'diagram' && (
+                <div className="mr-auto flex items-center gap-2 text-xs text-[--text-light]" title="Screenshot settings for exports">
+                  <span className="material-symbols-outlined text-base leading-none">image</span>
+                  <select value={frameOptions.format} onChange={e => setFrameOptions({ ...frameOptions, format: e.target.value as FrameOptions['format'] })} className="px-2 py-1 border border-[--border] rounded-md bg-[--background]" aria-label="Screenshot format">
+                    <option value="png">PNG</option>
+                    <option value="jpeg">JPEG</option>
+                    <option value="webp">WebP</option>
+                  </select>
+                  <select value={frameOptions.width ?? ''} onChange={e => setFrameOptions({ ...frameOptions, width: e.target.value ? Number(e.target.value) : undefined })} className="px-2 py-1 border border-[--border] rounded-md bg-[--background]" aria-label="Screenshot width">
+                    <option value="">Original size</option>
+                    <option value="1920">1920px</option>
+                    <option value="1280">1280px</option>
+                    <option value="640">640px</option>
+                  </select>
+                  {frameOptions.format !== 'png' && (
+                    <input type="number" min={1} max={100} value={frameOptions.quality ?? 85} onChange={e => setFrameOptions({ ...frameOptions, quality: Number(e.target.value) })} className="w-14 px-2 py-1 border border-[--border] rounded-md bg-[--background]" aria-label="Screenshot quality" />
+                  )}
+                </div>
+              )}
               {store.generatedContent && !isLoading && store.outputFormat !== 'diagram' && <button onClick={handleExportZip} disabled={store.isZipping} className="inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]"><span className="material-symbols-outlined text-base leading-none">archive</span> {store.isZipping ? 'Zipping...' : 'Export .zip'}</button>}
               {store.generatedContent && !isLoading && <button onClick={() => window.print()} className="inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]"><span className="material-symbols-outlined text-base leading-none">picture_as_pdf</span> Export .pdf</button>}
               {store.generatedContent && !isLoading && store.outputFormat !== 'diagram' && <button onClick={() => downloadFile('guide.rtf', new Blob([markdownToRtf(store.generatedContent)]), 'application/rtf')} className="inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]"><span className="material-symbols-outlined text-base leading-none">description</span> Export .rtf</button>}
@@ -390,7 +403,8 @@ export default function App() {
         </section>
       </div>
 
-      <ContextModal isOpen={isContextModalOpen} onClose={() => setIsContextModalOpen(false)} onSubmit={startProcessing} description={localDescription} setDescription={setLocalDescription} prompt={localPrompt} setPrompt={setLocalPrompt} skipAudio={skipAudio} setSkipAudio={setSkipAudio} />
+      <ContextModal isOpen={isContextModalOpen} onClose={() => setIsContextModalOpen(false)} onSubmit={startProcessing} description={localDescription} setDescription={setLocalDescription} prompt={localPrompt} setPrompt={setLocalPrompt} glossary={localGlossary} setGlossary={setLocalGlossary} skipAudio={skipAudio} setSkipAudio={setSkipAudio} chunked={chunked} setChunked={setChunked} transcriptFileName={importedTranscript?.fileName || ''} transcriptError={transcriptError} onTranscriptSelect={handleTranscriptSelect} />
+      <BatchModal isOpen={isBatchModalOpen} onClose={() => setIsBatchModalOpen(false)} frameOptions={frameOptions} />
       <RewriteModal isOpen={isRewriteModalOpen} onClose={() => setIsRewriteModalOpen(false)} onSubmit={handleRewrite} selectedText={selectionRange ? store.generatedContent.substring(selectionRange.start, selectionRange.end) : ''} prompt={rewritePrompt} setPrompt={setRewritePrompt} isRewriting={isRewriting} />
       
       {aiPopup && (
@@ -1,31 +1,226 @@
-const apiRequest = async (endpoint: string, body: object) => {
-    const response = await fetch(`/api/${endpoint}`, {
-        method: 'POST',
+import type { AnalysisRequest, ApiError, Caption, DiarizedSegment, DocumentRequest, ErrorCode, ExtractedFrame, FrameOptions, FramesResponse, GeneratedDocument, GlossaryTerm, GuideRequest, GuideResponse, Job, JobParams, JobType, MediaInfo, Project, ProjectFields, ProjectSummary, Recording, RecordingFields, RewriteRequest, RewriteResponse, Speaker, SummaryRequest, SummaryResponse, Waveform } from '@screenguide/shared';
+
+// Versioned REST API; the OpenAPI description is served at /api/v1/openapi.json.
+const API_BASE = '/api/v1';
+
+// `network_error` is raised on the client when the server cannot be reached at all.
+export type RequestErrorCode = ErrorCode | 'network_error';
+
+const RETRYABLE_CODES = new Set<RequestErrorCode>(['network_error', 'rate_limited', 'internal', 'malformed_output', 'provider_unavailable', 'model_timeout']);
+
+export class ApiRequestError extends Error {
+    constructor(public code: RequestErrorCode, message: string, public retryable = RETRYABLE_CODES.has(code), public retryAfter?: number) {
+        super(message);
+        this.name = 'ApiRequestError';
+    }
+}
+
+const toRequestError = (status: number, data: Partial<ApiError>) =>
+    new ApiRequestError(data.code || (status === 413 ? 'payload_too_large' : 'internal'), data.error || `Request failed with status ${status}`, data.retryable, data.retryAfter);
+
+const readError = async (response: Response) => toRequestError(response.status, await response.json().catch(() => ({})));
+
+const send = async (url: string, init: RequestInit) => {
+    try {
+        return await fetch(url, init);
+    } catch (e: any) {
+        if (e.name === 'AbortError') throw e;
+        throw new ApiRequestError('network_error', 'Could not reach the server.');
+    }
+};
+
+const apiRequest = async <T = void>(endpoint: string, body?: object, method = 'POST', signal?: AbortSignal): Promise<T> => {
+    const response = await send(`${API_BASE}/${endpoint}`, {
+        method,
         headers: {
             'Content-Type': 'application/json',
         },
-        body: JSON.stringify(body),
+        body: body ? JSON.stringify(body) : undefined,
+        signal,
     });
 
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'An unknown error occurred' }));
-        throw new Error(errorData.error || 'API request failed');
-    }
+    if (!response.ok) throw await readError(response);
 
-    return response.json();
+    return response.status === 204 ? (undefined as T) : response.json();
 };
 
-export const transcribeVideo = (params: any) => apiRequest('transcribe', params);
-export const generateTimecodedCaptions = (params: any) => apiRequest('captions', params);
-export const generateGuide = async (params: any) => {
-    const data = await apiRequest('generate-guide', params);
+// What cancelled operations reject with, matching the error fetch throws on abort.
+const aborted = (message = 'The operation was cancelled.') => new DOMException(message, 'AbortError');
+
+export const uploadMedia = (file: File, duration: number, onProgress: (percent: number) => void, signal?: AbortSignal): Promise<MediaInfo> => new Promise((resolve, reject) => {
+    // XMLHttpRequest rather than fetch, because fetch cannot report upload progress.
+    const xhr = new XMLHttpRequest();
+    const formData = new FormData();
+    // Text fields must precede the file so the server has them when the upload stream starts.
+    formData.append('duration', String(duration));
+    formData.append('media', file);
+    xhr.open('POST', `${API_BASE}/media`);
+    xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+            onProgress((event.loaded / event.total) * 100);
+        }
+    };
+    xhr.onload = () => {
+        let data: any = {};
+        try { data = JSON.parse(xhr.responseText); } catch { /* non-JSON error page */ }
+        if (xhr.status >= 200 && xhr.status < 300) {
+            onProgress(100);
+            resolve(data);
+        } else {
+            reject(toRequestError(xhr.status, data));
+        }
+    };
+    xhr.onerror = () => reject(new ApiRequestError('network_error', 'Network error while uploading media'));
+    xhr.onabort = () => reject(aborted());
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+    xhr.send(formData);
+});
+
+export const transcribeVideo = (params: AnalysisRequest) => apiRequest<DiarizedSegment[]>('transcribe', params);
+export const generateTimecodedCaptions = (params: AnalysisRequest) => apiRequest<Caption[]>('captions', params);
+export const generateGuide = async (params: GuideRequest) => {
+    const data = await apiRequest<GuideResponse>('generate-guide', params);
     return data.content;
 };
-export const rewriteText = async (params: any) => {
-    const data = await apiRequest('rewrite', params);
+// POSTs to the streaming guide route and hands each text chunk to `onChunk` as it arrives.
+export const streamGuide = async (params: GuideRequest, onChunk: (text: string) => void, signal?: AbortSignal): Promise<void> => {
+    const response = await send(`${API_BASE}/generate-guide/stream`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(params),
+        signal,
+    });
+    if (!response.ok || !response.body) throw await readError(response);
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const events = buffer.split('\n\n');
+        buffer = events.pop() ?? '';
+        for (const raw of events) {
+            const event = raw.match(/^event: (.*)$/m)?.[1] ?? 'message';
+            const data = JSON.parse(raw.match(/^data: (.*)$/m)?.[1] ?? '{}');
+            if (event === 'chunk') onChunk(data.text);
+            else if (event === 'error') throw toRequestError(500, data);
+            else if (event === 'done') return;
+        }
+    }
+    // Only a `done` event means the guide is complete; a stream that just stops left it cut off.
+    throw new ApiRequestError('network_error', 'The connection dropped before the guide was finished.');
+};
+
+export const rewriteText = async (params: RewriteRequest) => {
+    const data = await apiRequest<RewriteResponse>('rewrite', params);
     return data.rewrittenText;
 };
-export const generateSummary = async (params: any) => {
-    const data = await apiRequest('summarize', params);
+export const generateSummary = async (params: SummaryRequest, signal?: AbortSignal) => {
+    const data = await apiRequest<SummaryResponse>('summarize', params, 'POST', signal);
     return data.summary;
 };
+
+export const deleteMedia = (mediaId: string) => apiRequest(`media/${mediaId}`, undefined, 'DELETE');
+export const mediaContentUrl = (mediaId: string) => `${API_BASE}/media/${mediaId}/content`;
+
+const base64ToBlob = (data: string, mimeType: string) => {
+    const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+    return new Blob([bytes], { type: mimeType });
+};
+
+// Frames are extracted on the server with ffmpeg; a failed timecode yields `blob: null` instead of failing the batch.
+export const extractFrames = async (mediaId: string, timecodes: string[], options: FrameOptions): Promise<{ timecode: string; blob: Blob | null }[]> => {
+    const { frames } = await apiRequest<FramesResponse>(`media/${mediaId}/frames`, { timecodes, ...options });
+    return frames.map((frame: ExtractedFrame) => {
+        if (frame.error) console.warn(`Failed to extract frame at ${frame.timecode}: ${frame.error}`);
+        return { timecode: frame.timecode, blob: frame.data ? base64ToBlob(frame.data, frame.mimeType!) : null };
+    });
+};
+
+export const getWaveform = (mediaId: string) => apiRequest<Waveform>(`media/${mediaId}/waveform`, undefined, 'GET');
+
+export const listProjects = () => apiRequest<ProjectSummary[]>('projects', undefined, 'GET');
+export const getProject = (id: string) => apiRequest<Project>(`projects/${id}`, undefined, 'GET');
+export const createProject = (fields: ProjectFields) => apiRequest<ProjectSummary>('projects', fields);
+export const updateProject = (id: string, fields: ProjectFields) => apiRequest<ProjectSummary>(`projects/${id}`, fields, 'PATCH');
+export const deleteProject = (id: string) => apiRequest(`projects/${id}`, undefined, 'DELETE');
+export const addRecording = (projectId: string, recording: RecordingFields) => apiRequest<Recording>(`projects/${projectId}/recordings`, recording);
+export const saveTranscript = (projectId: string, recordingId: string, transcript: DiarizedSegment[]) => apiRequest(`projects/${projectId}/recordings/${recordingId}/transcript`, { transcript }, 'PUT');
+export const saveCaptions = (projectId: string, recordingId: string, captions: Caption[]) => apiRequest(`projects/${projectId}/recordings/${recordingId}/captions`, { captions }, 'PUT');
+export const saveSpeakers = (projectId: string, recordingId: string, speakers: Speaker[]) => apiRequest(`projects/${projectId}/recordings/${recordingId}/speakers`, { speakers }, 'PUT');
+export const saveGlossary = (projectId: string, glossary: GlossaryTerm[]) => apiRequest(`projects/${projectId}/glossary`, { glossary }, 'PUT');
+export const saveDocument = (projectId: string, format: string, document: DocumentRequest) => apiRequest<GeneratedDocument>(`projects/${projectId}/documents/${format}`, document, 'PUT');
+
+export const startJob = (type: JobType, params: JobParams) => apiRequest<Job>('jobs', { type, params });
+export const cancelJob = (id: string) => apiRequest<Job>(`jobs/${id}/cancel`);
+export const getJob = (id: string) => apiRequest<Job>(`jobs/${id}`, undefined, 'GET');
+export const listActiveJobs = (projectId: string) => apiRequest<Job[]>(`jobs?projectId=${encodeURIComponent(projectId)}&active=true`, undefined, 'GET');
+
+// Polling replaces the event stream once it drops; a server that stays unreachable for this many polls fails the job.
+const JOB_POLL_MS = 2000;
+const MAX_POLL_FAILURES = 15;
+
+// Follows a server-side job over Server-Sent Events and resolves with its result once it is done.
+// Aborting `signal` cancels the job on the server; a job cancelled elsewhere rejects the same way.
+export const followJob = <T>(jobId: string, onUpdate: (job: Job) => void, signal?: AbortSignal): Promise<T> => new Promise((resolve, reject) => {
+    const source = new EventSource(`${API_BASE}/jobs/${jobId}/events`);
+    let settled = false;
+    let polling: ReturnType<typeof setTimeout> | undefined;
+    let pollFailures = 0;
+    const settle = (outcome: () => void) => {
+        if (settled) return;
+        settled = true;
+        source.close();
+        clearTimeout(polling);
+        signal?.removeEventListener('abort', cancel);
+        outcome();
+    };
+    const cancel = () => settle(() => {
+        cancelJob(jobId).catch(() => { /* the job may already have finished */ });
+        reject(aborted());
+    });
+    const handle = (job: Job) => {
+        onUpdate(job);
+        if (job.status === 'done') settle(() => resolve(job.result as T));
+        else if (job.status === 'failed') settle(() => reject(new ApiRequestError(job.errorCode || 'internal', job.error || 'Job failed')));
+        else if (job.status === 'cancelled') settle(() => reject(aborted('The job was cancelled.')));
+    };
+    const poll = async () => {
+        try {
+            handle(await getJob(jobId));
+            pollFailures = 0;
+        } catch (e) {
+            const unreachable = e instanceof ApiRequestError && e.code === 'network_error';
+            if (!unreachable || ++pollFailures >= MAX_POLL_FAILURES) return settle(() => reject(e));
+        }
+        if (!settled) polling = setTimeout(poll, JOB_POLL_MS);
+    };
+    if (signal?.aborted) return cancel();
+    signal?.addEventListener('abort', cancel, { once: true });
+    source.onmessage = (event) => {
+        let job: Job;
+        try {
+            job = JSON.parse(event.data);
+        } catch {
+            return settle(() => reject(new ApiRequestError('internal', 'The server sent an unreadable job update.')));
+        }
+        handle(job);
+    };
+    // A closed stream means the events endpoint refused us, e.g. an unknown job. Otherwise the browser would reconnect
+    // on its own, for example while the server restarts; polling takes over instead, so updates are not read twice.
+    source.onerror = () => {
+        if (settled || polling !== undefined) return;
+        if (source.readyState === EventSource.CLOSED) return settle(() => reject(new ApiRequestError('network_error', 'Lost the connection to the job.')));
+        source.close();
+        poll();
+    };
+});
+
+export const runJob = async <T>(type: JobType, params: JobParams, onUpdate: (job: Job) => void, signal?: AbortSignal): Promise<T> => {
+    // The start request itself is not aborted, so a job created just before cancelling is still cancelled by id.
+    const job = await startJob(type, params);
+    return followJob<T>(job.id, onUpdate, signal);
+};
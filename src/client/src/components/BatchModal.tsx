@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { useBatchStore, BatchItemStatus } from '../store/batch';
+import { FrameOptions, OutputFormat } from '../types';
+import { MAX_FILE_SIZE_MB, MAX_FILE_SIZE_BYTES } from '../utils/utils';
+
+interface BatchModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    frameOptions: FrameOptions;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+    queued: 'text-[--text-light]',
+    processing: 'text-blue-500',
+    done: 'text-green-600',
+    failed: 'text-[--error-text]',
+    cancelled: 'text-[--text-light]',
+};
+
+const FORMAT_LABELS: Record<OutputFormat, string> = {
+    guide: 'Step-by-step Guide',
+    article: 'Knowledge Base Article',
+    slides: 'Presentation Slides',
+    diagram: 'Diagram / Flowchart',
+};
+
+const inputClass = 'w-full bg-[--background] text-[--text] border border-[--border] rounded-lg px-4 py-2 text-sm focus:border-blue-500 focus:outline-none disabled:opacity-50';
+const buttonClass = 'inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary] disabled:opacity-50';
+
+export default function BatchModal({ isOpen, onClose, frameOptions }: BatchModalProps) {
+    const batch = useBatchStore();
+    const [rejected, setRejected] = useState<string[]>([]);
+    if (!isOpen) return null;
+
+    const addFiles = (files: FileList | null) => {
+        const selected = Array.from(files || []);
+        setRejected(selected.filter(file => file.size > MAX_FILE_SIZE_BYTES).map(file => file.name));
+        batch.addFiles(selected.filter(file => file.size <= MAX_FILE_SIZE_BYTES));
+    };
+
+    const pending = batch.items.filter(item => item.status !== 'done').length;
+    const finished = batch.items.filter(item => item.status === 'done' || item.status === 'failed').length;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex justify-center items-center z-50" onClick={onClose}>
+            <div className="bg-[--background] p-6 rounded-xl w-full max-w-3xl max-h-[90vh] shadow-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <div className="border-b border-[--border] pb-4 mb-4">
+                    <h2 className="text-xl border-none p-0 m-0">Batch Processing</h2>
+                    <p className="text-sm text-[--text-light] mt-1">Each recording becomes its own project. The description and prompt below apply to every recording that does not set its own; the glossary applies to all of them.</p>
+                </div>
+                <div className="flex flex-col gap-4 overflow-y-auto">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="batch-description" className="block mb-2 text-sm">Default Description</label>
+                            <input id="batch-description" type="text" value={batch.description} onChange={(e) => batch.setDefaults({ description: e.target.value })} disabled={batch.isRunning} placeholder="e.g., Feature demos for release 2.4" className={inputClass} />
+                        </div>
+                        <div>
+                            <label htmlFor="batch-format" className="block mb-2 text-sm">Output Format</label>
+                            <select id="batch-format" value={batch.outputFormat} onChange={(e) => batch.setDefaults({ outputFormat: e.target.value as OutputFormat })} disabled={batch.isRunning} className={inputClass}>
+                                {(Object.keys(FORMAT_LABELS) as OutputFormat[]).map(f => <option key={f} value={f}>{FORMAT_LABELS[f]}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    <div>
+                        <label htmlFor="batch-prompt" className="block mb-2 text-sm">Default Prompt</label>
+                        <textarea id="batch-prompt" value={batch.prompt} onChange={(e) => batch.setDefaults({ prompt: e.target.value })} disabled={batch.isRunning} placeholder="Give specific instructions to the AI..." rows={2} className={`${inputClass} resize-y`} />
+                    </div>
+                    <div>
+                        <label htmlFor="batch-glossary" className="block mb-2 text-sm">Glossary (Optional)</label>
+                        <textarea id="batch-glossary" value={batch.glossary} onChange={(e) => batch.setDefaults({ glossary: e.target.value })} disabled={batch.isRunning} placeholder={'One term per line, with misspellings to avoid after a colon:\nScreenGuide: screen guide, Screenguide'} rows={2} className={`${inputClass} font-mono resize-y`} />
+                    </div>
+                    <div className="flex gap-6">
+                        <label className="flex items-center gap-3 text-sm cursor-pointer select-none">
+                            <input type="checkbox" checked={batch.skipAudio} onChange={(e) => batch.setDefaults({ skipAudio: e.target.checked })} disabled={batch.isRunning} className="h-4 w-4 rounded accent-blue-500 cursor-pointer" />
+                            Skip audio transcription
+                        </label>
+                        <label className="flex items-center gap-3 text-sm cursor-pointer select-none">
+                            <input type="checkbox" checked={batch.chunked} onChange={(e) => batch.setDefaults({ chunked: e.target.checked })} disabled={batch.isRunning} className="h-4 w-4 rounded accent-blue-500 cursor-pointer" />
+                            Process in overlapping chunks
+                        </label>
+                    </div>
+
+                    <div className="border-t border-[--border] pt-4">
+                        <div className="flex justify-between items-center mb-2">
+                            <h3 className="text-base m-0">Recordings ({batch.items.length})</h3>
+                            <div className="flex gap-2">
+                                <label htmlFor="batch-files" className={`cursor-pointer ${buttonClass}`}><span className="material-symbols-outlined text-base leading-none">add</span> Add Files</label>
+                                <input id="batch-files" type="file" accept="video/*,audio/*" multiple onChange={(e) => addFiles(e.target.files)} className="hidden" value="" />
+                                {batch.items.length > 0 && !batch.isRunning && <button onClick={batch.clearBatch} className={buttonClass}>Clear</button>}
+                            </div>
+                        </div>
+                        {rejected.length > 0 && <p className="text-sm text-[--error-text] mb-2">Skipped files over {MAX_FILE_SIZE_MB}MB: {rejected.join(', ')}</p>}
+                        {batch.items.length === 0 && <p className="text-sm text-[--text-light]">Add the recordings to process, for example a release's worth of feature demos.</p>}
+                        <div className="flex flex-col gap-2">
+                            {batch.items.map(item => {
+                                const editable = !batch.isRunning && item.status !== 'done';
+                                return (
+                                    <div key={item.id} className="border border-[--border] rounded-lg p-3 flex flex-col gap-2">
+                                        <div className="flex items-center gap-3">
+                                            <p className="flex-1 text-sm truncate">{item.file.name}</p>
+                                            <span className={`text-xs ${STATUS_STYLES[item.status]}`}>{item.status === 'processing' ? `${item.stage}... ${Math.round(item.progress)}%` : item.status}</span>
+                                            {editable && <button onClick={() => batch.removeItem(item.id)} className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-[--background-secondary] text-[--text-light] hover:text-red-500"><span className="material-symbols-outlined text-xl">delete</span></button>}
+                                        </div>
+                                        {item.status === 'processing' && (
+                                            <div className="h-1.5 bg-[--background-secondary] rounded-full overflow-hidden">
+                                                <div className="h-full bg-blue-500 transition-all" style={{ width: `${item.progress}%` }}></div>
+                                            </div>
+                                        )}
+                                        {item.error && <p className="text-xs text-[--error-text]">{item.error}</p>}
+                                        {editable && (
+                                            <div className="grid grid-cols-2 gap-2">
+                                                <input type="text" value={item.description} onChange={(e) => batch.updateItem(item.id, { description: e.target.value })} placeholder="Description (uses the default)" className={`${inputClass} text-xs py-1 px-2`} />
+                                                <input type="text" value={item.prompt} onChange={(e) => batch.updateItem(item.id, { prompt: e.target.value })} placeholder="Prompt (uses the default)" className={`${inputClass} text-xs py-1 px-2`} />
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                    {batch.error && <div className="bg-[--error-bg] text-[--error-text] border border-[--error-border] p-3 rounded-lg text-sm">{batch.error}</div>}
+                </div>
+                <div className="flex justify-end gap-4 pt-6 mt-4 border-t border-[--border]">
+                    <button onClick={onClose} className="px-4 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]">Close</button>
+                    {finished > 0 && !batch.isRunning && (
+                        <button onClick={() => batch.downloadBundle(frameOptions)} disabled={batch.isBundling} className={buttonClass}>
+                            <span className="material-symbols-outlined text-base leading-none">folder_zip</span> {batch.isBundling ? 'Bundling...' : 'Download Bundle'}
+                        </button>
+                    )}
+                    {batch.isRunning ? (
+                        <button onClick={batch.cancelBatch} className={buttonClass}><span className="material-symbols-outlined text-base leading-none">close</span> Cancel</button>
+                    ) : (
+                        <button className="px-4 py-2 text-sm bg-[--primary-light] dark:bg-[--primary-dark] text-[--primary-text-light] dark:text-[--primary-text-dark] border-none rounded-lg hover:opacity-90 disabled:opacity-50" onClick={batch.runBatch} disabled={pending === 0}>
+                            {finished > 0 ? `Process Remaining (${pending})` : 'Start Processing'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -8,8 +8,15 @@ interface ContextModalProps {
     setDescription: (value: string) => void;
     prompt: string;
     setPrompt: (value: string) => void;
+    glossary: string;
+    setGlossary: (value: string) => void;
     skipAudio: boolean;
     setSkipAudio: (value: boolean) => void;
+    chunked: boolean;
+    setChunked: (value: boolean) => void;
+    transcriptFileName: string;
+    transcriptError: string;
+    onTranscriptSelect: (file: File | null) => void;
 }
 
 const PROMPT_EXAMPLES = [
@@ -18,7 +25,7 @@ const PROMPT_EXAMPLES = [
   'List all the keyboard shortcuts used.',
 ];
 
-export default function ContextModal({ isOpen, onClose, onSubmit, description, setDescription, prompt, setPrompt, skipAudio, setSkipAudio }: ContextModalProps) {
+export default function ContextModal({ isOpen, onClose, onSubmit, description, setDescription, prompt, setPrompt, glossary, setGlossary, skipAudio, setSkipAudio, chunked, setChunked, transcriptFileName, transcriptError, onTranscriptSelect }: ContextModalProps) {
     if (!isOpen) return null;
 
     return (
@@ -57,10 +64,38 @@ export default function ContextModal({ isOpen, onClose, onSubmit, description, s
                             ))}
                         </div>
                     </div>
+                    <div>
+                        <label htmlFor="glossary" className="block mb-2 text-sm">Glossary (Optional)</label>
+                        <textarea
+                            id="glossary"
+                            value={glossary}
+                            onChange={(e) => setGlossary(e.target.value)}
+                            placeholder={'One term per line, with misspellings to avoid after a colon:\nScreenGuide: screen guide, Screenguide\n--dry-run'}
+                            rows={3}
+                            className="w-full bg-[--background] text-[--text] border border-[--border] rounded-lg px-4 py-2 text-sm font-mono focus:border-blue-500 focus:outline-none resize-y"
+                        />
+                    </div>
                     <div className="flex items-center gap-3 mt-4 pt-4 border-t border-[--border]">
                         <input id="skip-audio" type="checkbox" checked={skipAudio} onChange={(e) => setSkipAudio(e.target.checked)} className="h-4 w-4 rounded accent-blue-500 cursor-pointer" />
                         <label htmlFor="skip-audio" className="text-sm cursor-pointer select-none">Skip audio transcription (visual captions only)</label>
                     </div>
+                    <div className="flex items-center gap-3">
+                        <input id="chunked" type="checkbox" checked={chunked} onChange={(e) => setChunked(e.target.checked)} className="h-4 w-4 rounded accent-blue-500 cursor-pointer" />
+                        <label htmlFor="chunked" className="text-sm cursor-pointer select-none">Process in overlapping chunks (recordings over 30 minutes are always chunked)</label>
+                    </div>
+                    <div className="flex flex-col gap-2">
+                        <div className="flex items-center gap-3">
+                            <label htmlFor="transcript-file" className="cursor-pointer text-xs px-2 py-1 border border-[--border] rounded-md hover:bg-[--background-secondary] inline-flex items-center gap-1"><span className="material-symbols-outlined text-sm">upload_file</span> Use Existing Transcript</label>
+                            <input id="transcript-file" type="file" accept=".srt,.vtt,.ass,.ssa" onChange={(e) => onTranscriptSelect(e.target.files?.[0] || null)} className="hidden" value="" />
+                            {transcriptFileName ? (
+                                <span className="text-sm flex items-center gap-1 min-w-0">
+                                    <span className="truncate">{transcriptFileName}</span>
+                                    <button onClick={() => onTranscriptSelect(null)} title="Transcribe with AI instead" className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-[--background-secondary] text-[--text-light]"><span className="material-symbols-outlined text-base">close</span></button>
+                                </span>
+                            ) : <span className="text-xs text-[--text-light]">SRT, WebVTT or ASS; skips AI transcription</span>}
+                        </div>
+                        {transcriptError && <p className="text-sm text-[--error-text]">{transcriptError}</p>}
+                    </div>
                 </div>
                 <div className="flex justify-end gap-4 pt-6 mt-4 border-t border-[--border]">
                     <button onClick={onClose} className="px-4 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]">Cancel</button>
@@ -0,0 +1,37 @@
+import { useState } from 'react';
+import { useAppStore } from '../store';
+import { parseGlossary, formatGlossary } from '../utils/glossary';
+
+// Edits the open project's glossary. It applies to the next transcription or generation and to the spelling checks in the editor.
+export default function GlossaryModal({ onClose }: { onClose: () => void }) {
+    const { glossary, setGlossary } = useAppStore(state => ({ glossary: state.glossary, setGlossary: state.setGlossary }));
+    const [text, setText] = useState(() => formatGlossary(glossary));
+
+    const save = () => {
+        setGlossary(parseGlossary(text));
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex justify-center items-center z-50 text-left" onClick={onClose}>
+            <div className="bg-[--background] p-6 rounded-xl w-full max-w-xl shadow-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <div className="border-b border-[--border] pb-4 mb-4">
+                    <h2 className="text-xl border-none p-0 m-0">Glossary</h2>
+                    <p className="text-sm text-[--text-light] mt-1">One term per line, with misspellings to avoid after a colon. Terms are passed to transcription and generation, and the editor flags likely misspellings.</p>
+                </div>
+                <textarea
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    placeholder={'ScreenGuide: screen guide, Screenguide\n--dry-run'}
+                    rows={10}
+                    autoFocus
+                    className="w-full bg-[--background] text-[--text] border border-[--border] rounded-lg px-4 py-2 text-sm font-mono focus:border-blue-500 focus:outline-none resize-y"
+                />
+                <div className="flex justify-end gap-2 mt-4">
+                    <button onClick={onClose} className="px-4 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]">Cancel</button>
+                    <button onClick={save} className="px-4 py-2 text-sm bg-[--primary-light] dark:bg-[--primary-dark] text-[--primary-text-light] dark:text-[--primary-text-dark] border-none rounded-lg hover:opacity-90">Save</button>
+                </div>
+            </div>
+        </div>
+    );
+}
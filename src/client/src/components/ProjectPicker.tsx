@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { useAppStore } from '../store';
+import { ProjectSummary } from '../types';
+import * as api from '../api';
+import { errorMessage } from '../utils/errors';
+
+export default function ProjectPicker() {
+    const { projectId, loadProject, deleteProject } = useAppStore(state => ({
+        projectId: state.projectId,
+        loadProject: state.loadProject,
+        deleteProject: state.deleteProject,
+    }));
+    const [isOpen, setIsOpen] = useState(false);
+    const [projects, setProjects] = useState<ProjectSummary[]>([]);
+    const [error, setError] = useState('');
+
+    const toggle = async () => {
+        if (isOpen) return setIsOpen(false);
+        setIsOpen(true);
+        setError('');
+        try {
+            setProjects(await api.listProjects());
+        } catch (e: any) {
+            setError(errorMessage(e, 'Failed to load projects.'));
+        }
+    };
+
+    const openProject = async (id: string) => {
+        setIsOpen(false);
+        await loadProject(id);
+    };
+
+    const removeProject = async (id: string) => {
+        try {
+            await deleteProject(id);
+            setProjects(projects.filter(p => p.id !== id));
+        } catch (e: any) {
+            setError(errorMessage(e, 'Failed to delete project.'));
+        }
+    };
+
+    return (
+        <div className="relative">
+            <button onClick={toggle} className="inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]"><span className="material-symbols-outlined text-base leading-none">folder_open</span> Projects</button>
+            {isOpen && (
+                <div className="absolute left-0 top-full mt-2 w-80 max-h-96 overflow-y-auto bg-[--background] border border-[--border] rounded-lg shadow-lg z-40 text-left">
+                    {error && <p className="p-3 text-sm text-[--error-text]">{error}</p>}
+                    {!error && projects.length === 0 && <p className="p-3 text-sm text-[--text-light]">No saved projects yet.</p>}
+                    {projects.map(project => (
+                        <div key={project.id} className={`flex items-center gap-2 px-3 py-2 border-b border-[--border] last:border-b-0 ${project.id === projectId ? 'bg-[--background-secondary]' : ''}`}>
+                            <button onClick={() => openProject(project.id)} className="flex-1 text-left bg-transparent border-none p-0 min-w-0">
+                                <p className="text-sm truncate">{project.name}</p>
+                                <p className="text-xs text-[--text-light]">{new Date(project.updatedAt).toLocaleString()}</p>
+                            </button>
+                            <button onClick={() => removeProject(project.id)} className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-[--background-secondary] text-[--text-light] hover:text-red-500"><span className="material-symbols-outlined text-xl">delete</span></button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
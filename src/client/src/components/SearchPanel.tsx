@@ -0,0 +1,166 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useAppStore } from '../store';
+import { Timecode } from '@screenguide/shared/timecode';
+import { searchPattern, findMatches, replaceMatches, TextMatch } from '../utils/search';
+
+type Scope = 'transcript' | 'speakers' | 'captions' | 'document';
+
+const SCOPES: { scope: Scope; label: string }[] = [
+    { scope: 'transcript', label: 'Transcript' },
+    { scope: 'speakers', label: 'Speakers' },
+    { scope: 'captions', label: 'Captions' },
+    { scope: 'document', label: 'Document' },
+];
+
+interface Hit extends TextMatch {
+    scope: Scope;
+    /** Transcript or caption row; for the document, the line. */
+    index: number;
+    text: string;
+    /** Where transcript and caption hits are in the recording. */
+    time?: Timecode;
+}
+
+// Hits shown per scope; replace-all still covers every match.
+const MAX_HITS = 200;
+const CONTEXT = 30;
+
+const snippet = ({ text, start, end }: Hit) => (
+    <>
+        {start > CONTEXT && '…'}{text.slice(Math.max(0, start - CONTEXT), start)}
+        <mark className="bg-amber-300/70 dark:bg-amber-500/50 text-inherit rounded-sm">{text.slice(start, end)}</mark>
+        {text.slice(end, end + CONTEXT)}{end + CONTEXT < text.length && '…'}
+    </>
+);
+
+// Searches the transcript, speaker names, captions and the generated document, and replaces per scope.
+// Stays open beside the editor, so hits in the recording can be played while going through them. Ctrl+Shift+F toggles it.
+export default function SearchPanel() {
+    const { diarizedTranscript, timecodedCaptions, generatedContent, isGenerating } = useAppStore(state => ({
+        diarizedTranscript: state.diarizedTranscript,
+        timecodedCaptions: state.timecodedCaptions,
+        generatedContent: state.generatedContent,
+        isGenerating: state.isGenerating,
+    }));
+    const [isOpen, setIsOpen] = useState(false);
+    const [query, setQuery] = useState('');
+    const [replacement, setReplacement] = useState('');
+    const [regex, setRegex] = useState(false);
+    const [matchCase, setMatchCase] = useState(false);
+    const [scopes, setScopes] = useState<Set<Scope>>(new Set(['transcript', 'speakers', 'captions', 'document']));
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'f') {
+                e.preventDefault();
+                setIsOpen(open => !open);
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, []);
+
+    useEffect(() => {
+        if (isOpen) inputRef.current?.select();
+    }, [isOpen]);
+
+    const { pattern, error } = useMemo(() => {
+        try {
+            return { pattern: searchPattern({ query, regex, matchCase }), error: '' };
+        } catch (e: any) {
+            return { pattern: null, error: e?.message || 'Invalid regular expression.' };
+        }
+    }, [query, regex, matchCase]);
+
+    const hits = useMemo(() => {
+        const found: Record<Scope, Hit[]> = { transcript: [], speakers: [], captions: [], document: [] };
+        if (!pattern) return found;
+        const rowHits = (scope: Scope, index: number, text: string, startTime?: string) =>
+            findMatches(text, pattern).map(match => ({ ...match, scope, index, text, time: startTime === undefined ? undefined : Timecode.parseOrZero(startTime) }));
+        if (scopes.has('transcript')) found.transcript = diarizedTranscript.flatMap((segment, i) => rowHits('transcript', i, segment.text, segment.startTime));
+        if (scopes.has('speakers')) found.speakers = diarizedTranscript.flatMap((segment, i) => rowHits('speakers', i, segment.speaker, segment.startTime));
+        if (scopes.has('captions')) found.captions = timecodedCaptions.flatMap((caption, i) => rowHits('captions', i, caption.text, caption.startTime));
+        if (scopes.has('document')) found.document = generatedContent.split('\n').flatMap((line, i) => rowHits('document', i, line));
+        return found;
+    }, [pattern, scopes, diarizedTranscript, timecodedCaptions, generatedContent]);
+
+    const toggleScope = (scope: Scope) => {
+        const next = new Set(scopes);
+        if (!next.delete(scope)) next.add(scope);
+        setScopes(next);
+    };
+
+    // Transcript and caption replacements are single undo steps; the document has no undo, so it asks first.
+    const replaceAll = (scope: Scope) => {
+        if (!pattern) return;
+        const store = useAppStore.getState();
+        const replace = (text: string) => replaceMatches(text, pattern, replacement, regex);
+        // Unchanged rows keep their identity, which undo snapshots rely on to share them.
+        const replaceText = <T extends { text: string }>(row: T) => {
+            const text = replace(row.text);
+            return text === row.text ? row : { ...row, text };
+        };
+        if (scope === 'transcript') store.setDiarizedTranscript(diarizedTranscript.map(replaceText));
+        if (scope === 'captions') store.setTimecodedCaptions(timecodedCaptions.map(replaceText));
+        if (scope === 'speakers') {
+            const names = [...new Set(diarizedTranscript.map(segment => segment.speaker))];
+            store.renameSpeakers(Object.fromEntries(names.map(name => [name, replace(name)])));
+        }
+        if (scope === 'document' && window.confirm(`Replace ${hits.document.length} match${hits.document.length === 1 ? '' : 'es'} in the document? This cannot be undone.`)) {
+            store.setGeneratedContent(replace(generatedContent));
+        }
+    };
+
+    if (!isOpen) {
+        return <button onClick={() => setIsOpen(true)} title="Find and replace (Ctrl+Shift+F)" className="inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]"><span className="material-symbols-outlined text-base leading-none">search</span> Search</button>;
+    }
+
+    return (
+        <>
+            <button onClick={() => setIsOpen(false)} title="Close search (Ctrl+Shift+F)" className="inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-blue-500 rounded-lg hover:bg-[--background-secondary]"><span className="material-symbols-outlined text-base leading-none">search</span> Search</button>
+            <aside className="fixed right-4 top-20 bottom-4 w-[26rem] z-40 bg-[--background] border border-[--border] rounded-xl shadow-lg flex flex-col text-left" onKeyDown={e => e.key === 'Escape' && setIsOpen(false)}>
+                <div className="p-4 border-b border-[--border] flex flex-col gap-2">
+                    <div className="flex items-center justify-between">
+                        <h2 className="text-lg border-none p-0 m-0">Find & Replace</h2>
+                        <button onClick={() => setIsOpen(false)} className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-[--background-secondary]" aria-label="Close"><span className="material-symbols-outlined text-lg">close</span></button>
+                    </div>
+                    <input ref={inputRef} type="text" value={query} onChange={e => setQuery(e.target.value)} placeholder={regex ? 'Regular expression' : 'Find'} className={`w-full p-2 text-sm border rounded-md bg-[--background] focus:outline-none ${error ? 'border-red-500' : 'border-[--border] focus:border-blue-500'}`} />
+                    <input type="text" value={replacement} onChange={e => setReplacement(e.target.value)} placeholder={regex ? 'Replace with ($1 for groups)' : 'Replace with'} className="w-full p-2 text-sm border border-[--border] rounded-md bg-[--background] focus:border-blue-500 focus:outline-none" />
+                    {error && <p className="text-xs text-[--error-text]">{error}</p>}
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                        <label className="inline-flex items-center gap-1 cursor-pointer select-none"><input type="checkbox" checked={regex} onChange={e => setRegex(e.target.checked)} className="accent-blue-500" /> Regex</label>
+                        <label className="inline-flex items-center gap-1 cursor-pointer select-none"><input type="checkbox" checked={matchCase} onChange={e => setMatchCase(e.target.checked)} className="accent-blue-500" /> Match case</label>
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                        {SCOPES.map(({ scope, label }) => (
+                            <label key={scope} className="inline-flex items-center gap-1 cursor-pointer select-none"><input type="checkbox" checked={scopes.has(scope)} onChange={() => toggleScope(scope)} className="accent-blue-500" /> {label}</label>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex-1 overflow-y-auto p-2">
+                    {pattern && SCOPES.every(({ scope }) => hits[scope].length === 0) && <p className="text-sm text-[--text-light] p-2">No matches.</p>}
+                    {SCOPES.filter(({ scope }) => hits[scope].length > 0).map(({ scope, label }) => (
+                        <div key={scope} className="mb-3">
+                            <div className="flex items-center justify-between px-2 py-1 text-xs text-[--text-light]">
+                                <span>{label} · {hits[scope].length}</span>
+                                <button onClick={() => replaceAll(scope)} disabled={scope === 'document' && isGenerating} className="px-2 py-0.5 border border-[--border] rounded-md hover:bg-[--background-secondary] disabled:opacity-50">Replace All</button>
+                            </div>
+                            {hits[scope].slice(0, MAX_HITS).map(hit => (
+                                <div key={`${hit.index}:${hit.start}`} className="flex items-start gap-2 px-2 py-1 text-xs rounded-md hover:bg-[--background-secondary]">
+                                    {hit.time ? (
+                                        <button onClick={() => useAppStore.getState().seekVideo(hit.time!.seconds)} title="Play from here" className="shrink-0 text-blue-500 hover:underline tabular-nums">{hit.time.format()}</button>
+                                    ) : (
+                                        <span className="shrink-0 text-[--text-light] tabular-nums">L{hit.index + 1}</span>
+                                    )}
+                                    <span className="break-words min-w-0">{snippet(hit)}</span>
+                                </div>
+                            ))}
+                            {hits[scope].length > MAX_HITS && <p className="px-2 text-xs text-[--text-light]">and {hits[scope].length - MAX_HITS} more</p>}
+                        </div>
+                    ))}
+                </div>
+            </aside>
+        </>
+    );
+}
@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { useAppStore, restoreLastProject } from '../store';
+import { listLocalSessions, deleteLocalSession, LocalSession, MAX_LOCAL_SESSIONS } from '../utils/localSessions';
+
+// Offers sessions saved in this browser on load, before falling back to reopening the last project,
+// and stays available from the header to restore or delete them later.
+export default function SessionRecovery() {
+    const restoreLocalSession = useAppStore(state => state.restoreLocalSession);
+    const [isOpen, setIsOpen] = useState(false);
+    const [isStartup, setIsStartup] = useState(true);
+    const [sessions, setSessions] = useState<LocalSession[]>([]);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        listLocalSessions()
+            .then(found => {
+                if (found.length === 0) return restoreLastProject();
+                setSessions(found);
+                setIsOpen(true);
+            })
+            .catch(() => restoreLastProject());
+    }, []);
+
+    const open = async () => {
+        setIsStartup(false);
+        setIsOpen(true);
+        setError('');
+        try {
+            setSessions(await listLocalSessions());
+        } catch (e: any) {
+            setError(e?.message || 'Could not read sessions saved in this browser.');
+        }
+    };
+
+    const close = () => {
+        setIsOpen(false);
+        if (isStartup) restoreLastProject();
+        setIsStartup(false);
+    };
+
+    const restore = async (id: string) => {
+        setIsOpen(false);
+        setIsStartup(false);
+        await restoreLocalSession(id);
+    };
+
+    const remove = async (id: string) => {
+        try {
+            await deleteLocalSession(id);
+            setSessions(sessions.filter(s => s.id !== id));
+        } catch (e: any) {
+            setError(e?.message || 'Could not delete the session.');
+        }
+    };
+
+    return (
+        <>
+            <button onClick={open} className="inline-flex items-center justify-center gap-2 px-3 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]"><span className="material-symbols-outlined text-base leading-none">history</span> Recent</button>
+            {isOpen && (
+                <div className="fixed inset-0 bg-black/60 flex justify-center items-center z-50 text-left" onClick={close}>
+                    <div className="bg-[--background] p-6 rounded-xl w-full max-w-xl shadow-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
+                        <div className="border-b border-[--border] pb-4 mb-4">
+                            <h2 className="text-xl border-none p-0 m-0">{isStartup ? 'Restore Previous Session?' : 'Recent Sessions'}</h2>
+                            <p className="text-sm text-[--text-light] mt-1">Saved in this browser as you work. The {MAX_LOCAL_SESSIONS} most recent are kept.</p>
+                        </div>
+                        {error && <p className="text-sm text-[--error-text] mb-2">{error}</p>}
+                        {!error && sessions.length === 0 && <p className="text-sm text-[--text-light]">No sessions saved in this browser yet.</p>}
+                        <div className="flex flex-col max-h-96 overflow-y-auto">
+                            {sessions.map(session => (
+                                <div key={session.id} className="flex items-center gap-2 px-3 py-2 border-b border-[--border] last:border-b-0">
+                                    <button onClick={() => restore(session.id)} className="flex-1 text-left bg-transparent border-none p-0 min-w-0">
+                                        <p className="text-sm truncate">{session.name}</p>
+                                        <p className="text-xs text-[--text-light]">
+                                            {new Date(session.updatedAt).toLocaleString()} · {session.diarizedTranscript.length} segments{session.generatedContent ? ` · ${session.outputFormat}` : ''}{session.hasVideo ? ' · video' : ''}
+                                        </p>
+                                    </button>
+                                    <button onClick={() => remove(session.id)} className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-[--background-secondary] text-[--text-light] hover:text-red-500"><span className="material-symbols-outlined text-xl">delete</span></button>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex justify-end gap-4 pt-6 mt-4 border-t border-[--border]">
+                            <button onClick={close} className="px-4 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]">{isStartup ? 'Not Now' : 'Close'}</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { useAppStore } from '../store';
+import { speakerStats, updateSpeaker, SpeakerStats } from '../utils/speakers';
+
+const formatTalkTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+// A name is committed on blur or Enter, so typing does not relabel the transcript on every keystroke.
+function SpeakerName({ name, onRename }: { name: string; onRename: (to: string) => void }) {
+    const [draft, setDraft] = useState(name);
+    const [editing, setEditing] = useState(false);
+    const commit = () => {
+        setEditing(false);
+        if (draft.trim() && draft.trim() !== name) onRename(draft.trim());
+        else setDraft(name);
+    };
+    return (
+        <input
+            type="text"
+            value={editing ? draft : name}
+            onFocus={() => { setDraft(name); setEditing(true); }}
+            onChange={e => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); if (e.key === 'Escape') { setDraft(name); setEditing(false); } }}
+            className="w-full p-1.5 text-sm border border-[--border] rounded-md bg-[--background] focus:border-blue-500 focus:outline-none"
+        />
+    );
+}
+
+// Lists the speakers in the transcript with how much they say, and renames, merges or styles them everywhere at once.
+export default function SpeakerPanel({ onClose }: { onClose: () => void }) {
+    const { diarizedTranscript, speakers, setSpeakers, renameSpeaker } = useAppStore(state => ({
+        diarizedTranscript: state.diarizedTranscript,
+        speakers: state.speakers,
+        setSpeakers: state.setSpeakers,
+        renameSpeaker: state.renameSpeaker,
+    }));
+    const stats = speakerStats(diarizedTranscript, speakers);
+
+    const rename = (from: string, to: string) => {
+        if (stats.some(s => s.name === to) && !window.confirm(`${to} is already a speaker. Merge ${from} into ${to}?`)) return;
+        renameSpeaker(from, to);
+    };
+
+    const merge = (from: SpeakerStats, into: string) => {
+        if (into && window.confirm(`Merge ${from.segments} segment${from.segments === 1 ? '' : 's'} from ${from.name} into ${into}?`)) renameSpeaker(from.name, into);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex justify-center items-center z-50 text-left" onClick={onClose}>
+            <div className="bg-[--background] p-6 rounded-xl w-full max-w-2xl shadow-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <div className="border-b border-[--border] pb-4 mb-4">
+                    <h2 className="text-xl border-none p-0 m-0">Speakers</h2>
+                    <p className="text-sm text-[--text-light] mt-1">Names and roles are used when generating documents. Colours apply to .ass subtitles.</p>
+                </div>
+                {stats.length === 0 && <p className="text-sm text-[--text-light]">The transcript has no speakers yet.</p>}
+                <div className="flex flex-col max-h-96 overflow-y-auto">
+                    {stats.length > 0 && (
+                        <div className="grid grid-cols-[32px_1fr_1fr_80px_120px] gap-2 px-1 pb-2 text-xs text-[--text-light]">
+                            <span />
+                            <span>Name</span>
+                            <span>Role</span>
+                            <span>Segments</span>
+                            <span>Merge</span>
+                        </div>
+                    )}
+                    {stats.map(speaker => (
+                        <div key={speaker.name} className="grid grid-cols-[32px_1fr_1fr_80px_120px] gap-2 items-center px-1 py-1.5 border-b border-[--border] last:border-b-0">
+                            <input type="color" value={speaker.color} onChange={e => setSpeakers(updateSpeaker(speakers, speaker.name, { color: e.target.value }), `speaker:${speaker.name}:color`)} title="Subtitle colour" className="w-7 h-7 p-0 border border-[--border] rounded cursor-pointer bg-transparent" />
+                            <SpeakerName name={speaker.name} onRename={to => rename(speaker.name, to)} />
+                            <input type="text" value={speaker.role} onChange={e => setSpeakers(updateSpeaker(speakers, speaker.name, { role: e.target.value }), `speaker:${speaker.name}:role`)} placeholder="e.g. Support engineer" className="w-full p-1.5 text-sm border border-[--border] rounded-md bg-[--background] focus:border-blue-500 focus:outline-none" />
+                            <span className="text-xs text-[--text-light]" title="Segments and talk time">{speaker.segments} · {formatTalkTime(speaker.talkTime)}</span>
+                            <select value="" onChange={e => merge(speaker, e.target.value)} disabled={stats.length < 2} className="text-xs px-1 py-1.5 border border-[--border] rounded-md bg-[--background] disabled:opacity-50">
+                                <option value="">Merge into...</option>
+                                {stats.filter(other => other.name !== speaker.name).map(other => <option key={other.name} value={other.name}>{other.name}</option>)}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+                <div className="flex justify-end mt-4">
+                    <button onClick={onClose} className="px-4 py-2 text-sm border border-[--border] rounded-lg hover:bg-[--background-secondary]">Done</button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { Timecode } from '@screenguide/shared/timecode';
+
+interface TimecodeInputProps {
+    value: string;
+    onChange: (value: string) => void;
+}
+
+// Edits a timecode as free text and commits it on blur or Enter as `HH:MM:SS.mmm`, so the store only holds valid timecodes.
+export default function TimecodeInput({ value, onChange }: TimecodeInputProps) {
+    const [draft, setDraft] = useState(value);
+    useEffect(() => setDraft(value), [value]);
+    const isValid = Timecode.tryParse(draft) !== null;
+
+    const commit = () => {
+        const time = Timecode.tryParse(draft);
+        if (time && time.toString() !== value) onChange(time.toString());
+        else setDraft(value);
+    };
+
+    return (
+        <input
+            type="text"
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+            title={isValid ? undefined : 'Use HH:MM:SS.mmm'}
+            className={`w-full text-center p-2 text-xs border rounded-md bg-[--background] focus:outline-none ${isValid ? 'border-[--border] focus:border-blue-500' : 'border-red-500'}`}
+        />
+    );
+}
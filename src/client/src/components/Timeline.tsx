@@ -0,0 +1,306 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useAppStore } from '../store';
+import * as api from '../api';
+import { Waveform } from '../types';
+import { Timecode } from '@screenguide/shared/timecode';
+import { retimeSegment } from '../utils/words';
+
+interface TimelineProps {
+    currentTime: number;
+    duration: number;
+    onSeek: (seconds: number) => void;
+}
+
+type BlockKind = 'transcript' | 'captions';
+type DragMode = 'move' | 'start' | 'end';
+
+interface BlockRef {
+    kind: BlockKind;
+    index: number;
+}
+
+interface Block extends BlockRef {
+    lane: number;
+    start: number;
+    end: number;
+    text: string;
+}
+
+interface Drag extends BlockRef {
+    mode: DragMode;
+    originX: number;
+    originStart: number;
+    originEnd: number;
+    start: number;
+    end: number;
+}
+
+const LANE_HEIGHT = 28;
+const RULER_HEIGHT = 20;
+// Zoom is in pixels per second.
+const MIN_ZOOM = 5;
+const MAX_ZOOM = 400;
+const MIN_LENGTH = 0.1;
+const SNAP_PX = 8;
+const EDGE_PX = 6;
+const NUDGE = 0.1;
+const BIG_NUDGE = 1;
+const TICK_STEPS = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600];
+
+const rulerLabel = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.round(seconds) % 60).padStart(2, '0')}`;
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const sameBlock = (a: BlockRef | null, b: BlockRef) => !!a && a.kind === b.kind && a.index === b.index;
+
+// Transcript segments (one lane per speaker) and captions as blocks over the recording's waveform. Blocks are dragged
+// to move them or by their edges to resize them; changes are written back to the store when the pointer is released.
+export default function Timeline({ currentTime, duration, onSeek }: TimelineProps) {
+    const { mediaId, diarizedTranscript, timecodedCaptions, setDiarizedTranscript, setTimecodedCaptions } = useAppStore(state => ({
+        mediaId: state.mediaId,
+        diarizedTranscript: state.diarizedTranscript,
+        timecodedCaptions: state.timecodedCaptions,
+        setDiarizedTranscript: state.setDiarizedTranscript,
+        setTimecodedCaptions: state.setTimecodedCaptions,
+    }));
+    const [zoom, setZoom] = useState(50);
+    const [scrollLeft, setScrollLeft] = useState(0);
+    const [viewportWidth, setViewportWidth] = useState(0);
+    const [waveform, setWaveform] = useState<Waveform | null>(null);
+    const [selected, setSelected] = useState<BlockRef | null>(null);
+    const [drag, setDrag] = useState<Drag | null>(null);
+    const [snapping, setSnapping] = useState(true);
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const fittedFor = useRef('');
+
+    const speakers = useMemo(() => [...new Set(diarizedTranscript.map(segment => segment.speaker))], [diarizedTranscript]);
+    const lanes = [...speakers, 'Captions'];
+    const blocks = useMemo<Block[]>(() => [
+        ...diarizedTranscript.map((segment, index) => ({ kind: 'transcript' as const, index, lane: speakers.indexOf(segment.speaker), start: Timecode.parseOrZero(segment.startTime).seconds, end: Timecode.parseOrZero(segment.endTime).seconds, text: segment.text })),
+        ...timecodedCaptions.map((caption, index) => ({ kind: 'captions' as const, index, lane: speakers.length, start: Timecode.parseOrZero(caption.startTime).seconds, end: Timecode.parseOrZero(caption.endTime).seconds, text: caption.text })),
+    ], [diarizedTranscript, timecodedCaptions, speakers]);
+    const length = Math.max(duration, ...blocks.map(block => block.end), 1);
+    const limit = duration > 0 ? duration : Infinity;
+    const isEmpty = blocks.length === 0;
+
+    useEffect(() => {
+        setWaveform(null);
+        if (!mediaId) return;
+        let cancelled = false;
+        api.getWaveform(mediaId)
+            .then(result => !cancelled && setWaveform(result))
+            .catch((e: any) => console.warn('Waveform unavailable:', e?.message || e));
+        return () => { cancelled = true; };
+    }, [mediaId]);
+
+    useEffect(() => {
+        const element = scrollRef.current;
+        if (!element) return;
+        const observer = new ResizeObserver(() => setViewportWidth(element.clientWidth));
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, [isEmpty]);
+
+    // A new recording starts zoomed to fit.
+    useEffect(() => {
+        if (!viewportWidth || !duration || fittedFor.current === `${mediaId}:${duration}`) return;
+        fittedFor.current = `${mediaId}:${duration}`;
+        setZoom(clamp(viewportWidth / duration, MIN_ZOOM, MAX_ZOOM));
+    }, [mediaId, duration, viewportWidth]);
+
+    // Playback that runs off screen scrolls the timeline along.
+    useEffect(() => {
+        const element = scrollRef.current;
+        if (!element || drag) return;
+        const x = currentTime * zoom;
+        if (x < element.scrollLeft || x > element.scrollLeft + element.clientWidth) element.scrollLeft = x - element.clientWidth / 4;
+    }, [currentTime]);
+
+    // Only the visible part of the waveform is drawn, so a long recording at high zoom does not need a huge canvas.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (!canvas || !context) return;
+        const height = lanes.length * LANE_HEIGHT;
+        const ratio = window.devicePixelRatio || 1;
+        canvas.width = viewportWidth * ratio;
+        canvas.height = height * ratio;
+        context.setTransform(ratio, 0, 0, ratio, 0, 0);
+        context.clearRect(0, 0, viewportWidth, height);
+        if (!waveform?.peaks.length) return;
+        context.fillStyle = 'rgba(59, 130, 246, 0.25)';
+        const { peaks, peaksPerSecond } = waveform;
+        for (let x = 0; x < viewportWidth; x++) {
+            const from = Math.floor(((scrollLeft + x) / zoom) * peaksPerSecond);
+            const to = Math.max(from + 1, Math.floor(((scrollLeft + x + 1) / zoom) * peaksPerSecond));
+            if (from >= peaks.length) break;
+            let peak = 0;
+            for (let i = from; i < Math.min(to, peaks.length); i++) peak = Math.max(peak, peaks[i]);
+            const bar = peak * height;
+            context.fillRect(x, (height - bar) / 2, 1, Math.max(bar, 1));
+        }
+    }, [waveform, zoom, scrollLeft, viewportWidth, lanes.length]);
+
+    const zoomTo = (next: number, anchorX = viewportWidth / 2) => {
+        const value = clamp(next, MIN_ZOOM, MAX_ZOOM);
+        const time = (scrollLeft + anchorX) / zoom;
+        setZoom(value);
+        requestAnimationFrame(() => {
+            if (scrollRef.current) scrollRef.current.scrollLeft = time * value - anchorX;
+        });
+    };
+
+    const fit = () => {
+        setZoom(clamp(viewportWidth / length, MIN_ZOOM, MAX_ZOOM));
+        if (scrollRef.current) scrollRef.current.scrollLeft = 0;
+    };
+
+    // Ctrl/Cmd + wheel zooms around the pointer. React registers wheel listeners as passive, so this one is added by hand.
+    useEffect(() => {
+        const element = scrollRef.current;
+        if (!element) return;
+        const onWheel = (e: WheelEvent) => {
+            if (!e.ctrlKey && !e.metaKey) return;
+            e.preventDefault();
+            zoomTo(zoom * (e.deltaY < 0 ? 1.25 : 0.8), e.clientX - element.getBoundingClientRect().left);
+        };
+        element.addEventListener('wheel', onWheel, { passive: false });
+        return () => element.removeEventListener('wheel', onWheel);
+    });
+
+    const update = ({ kind, index }: BlockRef, start: number, end: number) => {
+        const startTime = Timecode.fromSeconds(start).toString();
+        const endTime = Timecode.fromSeconds(end).toString();
+        if (kind === 'transcript') setDiarizedTranscript(diarizedTranscript.map((segment, i) => i === index ? retimeSegment(segment, startTime, endTime) : segment));
+        else setTimecodedCaptions(timecodedCaptions.map((caption, i) => i === index ? { ...caption, startTime, endTime } : caption));
+    };
+
+    // Edges of the other blocks and the playhead attract a dragged edge that comes within a few pixels.
+    const snap = (time: number, target: BlockRef) => {
+        const candidates = [0, currentTime, ...blocks.filter(block => !sameBlock(target, block)).flatMap(block => [block.start, block.end])];
+        const nearest = candidates.reduce((best, candidate) => Math.abs(candidate - time) < Math.abs(best - time) ? candidate : best, Infinity);
+        return Math.abs(nearest - time) <= SNAP_PX / zoom ? nearest : time;
+    };
+
+    const dragTo = (current: Drag, clientX: number, useSnapping: boolean): Drag => {
+        const delta = (clientX - current.originX) / zoom;
+        const span = current.originEnd - current.originStart;
+        if (current.mode === 'move') {
+            let start = clamp(current.originStart + delta, 0, limit - span);
+            if (useSnapping) {
+                const byStart = snap(start, current) - start;
+                const byEnd = snap(start + span, current) - (start + span);
+                const shift = byStart && byEnd ? (Math.abs(byStart) < Math.abs(byEnd) ? byStart : byEnd) : byStart || byEnd;
+                start = clamp(start + shift, 0, limit - span);
+            }
+            return { ...current, start, end: start + span };
+        }
+        if (current.mode === 'start') {
+            const start = current.originStart + delta;
+            return { ...current, start: clamp(useSnapping ? snap(start, current) : start, 0, current.originEnd - MIN_LENGTH) };
+        }
+        const end = current.originEnd + delta;
+        return { ...current, end: clamp(useSnapping ? snap(end, current) : end, current.originStart + MIN_LENGTH, limit) };
+    };
+
+    const startDrag = (e: React.PointerEvent<HTMLDivElement>, block: Block) => {
+        e.stopPropagation();
+        if (e.button !== 0) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const mode: DragMode = e.clientX - rect.left < EDGE_PX ? 'start' : rect.right - e.clientX < EDGE_PX ? 'end' : 'move';
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setSelected({ kind: block.kind, index: block.index });
+        setDrag({ kind: block.kind, index: block.index, mode, originX: e.clientX, originStart: block.start, originEnd: block.end, start: block.start, end: block.end });
+    };
+
+    const moveDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (drag) setDrag(dragTo(drag, e.clientX, snapping && !e.altKey));
+    };
+
+    const endDrag = () => {
+        if (drag && (drag.start !== drag.originStart || drag.end !== drag.originEnd)) update(drag, drag.start, drag.end);
+        setDrag(null);
+    };
+
+    const seekTo = (e: React.PointerEvent<HTMLDivElement>) => {
+        setSelected(null);
+        onSeek(clamp((e.clientX - e.currentTarget.getBoundingClientRect().left) / zoom, 0, length));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        const block = blocks.find(b => sameBlock(selected, b));
+        const step = e.shiftKey ? BIG_NUDGE : NUDGE;
+        if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+            const direction = e.key === 'ArrowLeft' ? -1 : 1;
+            e.preventDefault();
+            if (!block) return onSeek(clamp(currentTime + direction * step, 0, length));
+            if (e.altKey) return update(block, block.start, clamp(block.end + direction * step, block.start + MIN_LENGTH, limit));
+            const start = clamp(block.start + direction * step, 0, limit - (block.end - block.start));
+            return update(block, start, start + block.end - block.start);
+        }
+        if (e.key === '[' && block) return update(block, clamp(currentTime, 0, block.end - MIN_LENGTH), block.end);
+        if (e.key === ']' && block) return update(block, block.start, clamp(currentTime, block.start + MIN_LENGTH, limit));
+        if (e.key === '+' || e.key === '=') return zoomTo(zoom * 1.5);
+        if (e.key === '-') return zoomTo(zoom / 1.5);
+        if (e.key === 'Escape') setSelected(null);
+    };
+
+    if (isEmpty) return null;
+
+    const tickStep = TICK_STEPS.find(step => step * zoom >= 60) ?? TICK_STEPS[TICK_STEPS.length - 1];
+    const firstTick = Math.floor(scrollLeft / zoom / tickStep) * tickStep;
+    const ticks: number[] = [];
+    for (let t = firstTick; t <= Math.min(length, (scrollLeft + viewportWidth) / zoom); t += tickStep) ticks.push(t);
+    const height = RULER_HEIGHT + lanes.length * LANE_HEIGHT;
+
+    return (
+        <div className="border-t border-[--border] bg-[--background-secondary]">
+            <div className="flex items-center gap-2 px-2 py-1 text-xs text-[--text-light]">
+                <span className="mr-auto">Timeline · ←/→ nudge (Shift ×10, Alt resizes) · [ ] set edge to playhead</span>
+                <label className="inline-flex items-center gap-1 cursor-pointer select-none" title="Hold Alt while dragging to skip snapping">
+                    <input type="checkbox" checked={snapping} onChange={e => setSnapping(e.target.checked)} className="h-3 w-3 accent-blue-500" /> Snap
+                </label>
+                <button onClick={() => zoomTo(zoom / 1.5)} title="Zoom out (-)" className="w-6 h-6 flex items-center justify-center rounded hover:bg-[--background]"><span className="material-symbols-outlined text-base">zoom_out</span></button>
+                <button onClick={() => zoomTo(zoom * 1.5)} title="Zoom in (+)" className="w-6 h-6 flex items-center justify-center rounded hover:bg-[--background]"><span className="material-symbols-outlined text-base">zoom_in</span></button>
+                <button onClick={fit} title="Fit the recording" className="w-6 h-6 flex items-center justify-center rounded hover:bg-[--background]"><span className="material-symbols-outlined text-base">fit_width</span></button>
+            </div>
+            <div className="flex">
+                <div className="w-24 shrink-0 border-r border-[--border] text-xs" style={{ paddingTop: RULER_HEIGHT }}>
+                    {lanes.map((lane, i) => (
+                        <div key={i} className="px-2 truncate flex items-center" style={{ height: LANE_HEIGHT }} title={lane}>{lane}</div>
+                    ))}
+                </div>
+                <div ref={scrollRef} tabIndex={0} onKeyDown={handleKeyDown} onScroll={e => setScrollLeft(e.currentTarget.scrollLeft)} className="flex-1 overflow-x-auto overflow-y-hidden focus:outline-none">
+                    <div className="relative" style={{ width: length * zoom, height }} onPointerDown={seekTo}>
+                        <canvas ref={canvasRef} className="absolute pointer-events-none" style={{ left: scrollLeft, top: RULER_HEIGHT, width: viewportWidth, height: lanes.length * LANE_HEIGHT }} />
+                        {ticks.map(t => (
+                            <div key={t} className="absolute top-0 border-l border-[--border] text-[10px] text-[--text-light] pl-1 pointer-events-none" style={{ left: t * zoom, height }}>{rulerLabel(t)}</div>
+                        ))}
+                        {blocks.map(block => {
+                            const isDragged = sameBlock(drag, block);
+                            const start = isDragged ? drag!.start : block.start;
+                            const end = isDragged ? drag!.end : block.end;
+                            return (
+                                <div
+                                    key={`${block.kind}-${block.index}`}
+                                    onPointerDown={e => startDrag(e, block)}
+                                    onPointerMove={moveDrag}
+                                    onPointerUp={endDrag}
+                                    onPointerCancel={() => setDrag(null)}
+                                    onDoubleClick={() => onSeek(block.start)}
+                                    title={`${Timecode.fromSeconds(start)} - ${Timecode.fromSeconds(end)}\n${block.text}`}
+                                    className={`absolute rounded border text-[10px] leading-tight px-1 overflow-hidden whitespace-nowrap cursor-grab select-none touch-none ${block.kind === 'captions' ? 'bg-amber-500/20 border-amber-500' : 'bg-blue-500/20 border-blue-500'} ${sameBlock(selected, block) ? 'ring-2 ring-blue-500 z-10' : ''}`}
+                                    style={{ left: start * zoom, width: Math.max((end - start) * zoom, 2), top: RULER_HEIGHT + block.lane * LANE_HEIGHT + 3, height: LANE_HEIGHT - 6 }}
+                                >
+                                    <div className="absolute inset-y-0 left-0 cursor-ew-resize" style={{ width: EDGE_PX }} />
+                                    <div className="absolute inset-y-0 right-0 cursor-ew-resize" style={{ width: EDGE_PX }} />
+                                    <span className="pointer-events-none">{block.text}</span>
+                                </div>
+                            );
+                        })}
+                        <div className="absolute top-0 w-px bg-red-500 pointer-events-none z-20" style={{ left: currentTime * zoom, height }} />
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,16 +1,47 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useAppStore } from '../store';
-import { DiarizedSegment, Caption } from '../types';
-import { exportToAss, exportToJson, downloadFile } from '../utils/exportUtils';
+import { DiarizedSegment, Caption, TranscriptWord } from '../types';
+import { exportToAss, exportToJson, exportToSrt, exportToVtt, downloadFile, SubtitleSource, SpeakerLabels } from '../utils/exportUtils';
+import { importSubtitles, cuesToTranscript, cuesToCaptions } from '../utils/importUtils';
+import { Timecode } from '@screenguide/shared/timecode';
+import { splitRow, mergeWithNext, insertAfter, removeRows, shiftRows } from '../utils/segments';
+import { findGlossaryIssues, applyGlossaryFixes, GlossaryIssue } from '../utils/glossary';
+import { lowConfidenceWords, retimeSegment } from '../utils/words';
+import TimecodeInput from './TimecodeInput';
+import SpeakerPanel from './SpeakerPanel';
+import GlossaryModal from './GlossaryModal';
+
+const EXPORT_TYPES = { ass: 'text/plain', json: 'application/json', srt: 'application/x-subrip', vtt: 'text/vtt' };
 
 export default function TranscriptEditor() {
-    const { diarizedTranscript, timecodedCaptions, setDiarizedTranscript, setTimecodedCaptions } = useAppStore(state => ({
+    const { diarizedTranscript, timecodedCaptions, speakerProfiles, glossary, setDiarizedTranscript, setTimecodedCaptions, undo, redo, canUndo, canRedo } = useAppStore(state => ({
         diarizedTranscript: state.diarizedTranscript,
         timecodedCaptions: state.timecodedCaptions,
+        speakerProfiles: state.speakers,
+        glossary: state.glossary,
         setDiarizedTranscript: state.setDiarizedTranscript,
         setTimecodedCaptions: state.setTimecodedCaptions,
+        undo: state.undo,
+        redo: state.redo,
+        canUndo: state.undoStack.length > 0,
+        canRedo: state.redoStack.length > 0,
     }));
     const [activeTab, setActiveTab] = useState<'transcript' | 'captions'>('transcript');
+    const [subtitleSource, setSubtitleSource] = useState<SubtitleSource>('both');
+    const [speakerLabels, setSpeakerLabels] = useState<SpeakerLabels>('voice');
+    const [selection, setSelection] = useState<Set<number>>(new Set());
+    const [splitTiming, setSplitTiming] = useState<'text' | 'playhead'>('text');
+    const [bulkSpeaker, setBulkSpeaker] = useState('');
+    const [bulkShift, setBulkShift] = useState('0');
+    const [showSpeakers, setShowSpeakers] = useState(false);
+    const [showGlossary, setShowGlossary] = useState(false);
+    const caret = useRef<{ index: number; offset: number } | null>(null);
+    const lastToggled = useRef<number | null>(null);
+    const isTranscript = activeTab === 'transcript';
+    const rows: (DiarizedSegment | Caption)[] = isTranscript ? diarizedTranscript : timecodedCaptions;
+    const speakers = [...new Set(diarizedTranscript.map(segment => segment.speaker))];
+    const issues = useMemo(() => rows.map(row => findGlossaryIssues(row.text, glossary)), [rows, glossary]);
+    const issueCount = issues.reduce((count, rowIssues) => count + rowIssues.length, 0);
 
     useEffect(() => {
         if (diarizedTranscript.length === 0 && timecodedCaptions.length > 0) {
@@ -20,84 +51,241 @@ export default function TranscriptEditor() {
         }
     }, [diarizedTranscript.length, timecodedCaptions.length]);
 
-    const handleTranscriptChange = (index: number, field: keyof DiarizedSegment, value: string) => {
-        const newTranscript = [...diarizedTranscript];
-        newTranscript[index] = { ...newTranscript[index], [field]: value };
-        setDiarizedTranscript(newTranscript);
+    useEffect(() => setSelection(new Set()), [activeTab, rows.length]);
+
+    // Typing in one field within a second of the last keystroke extends the same undo step.
+    const handleTranscriptChange = (index: number, field: keyof DiarizedSegment, value: string) =>
+        setDiarizedTranscript(diarizedTranscript.map((segment, i) => i === index ? { ...segment, [field]: value } : segment), `transcript:${index}:${field}`);
+
+    // Times go through `retimeSegment` like timeline drags, so timed words stay inside the segment.
+    const handleTranscriptTimeChange = (index: number, field: 'startTime' | 'endTime', value: string) =>
+        setDiarizedTranscript(diarizedTranscript.map((segment, i) => i === index
+            ? retimeSegment(segment, field === 'startTime' ? value : segment.startTime, field === 'endTime' ? value : segment.endTime)
+            : segment));
+
+    const handleCaptionChange = (index: number, field: keyof Caption, value: string) =>
+        setTimecodedCaptions(timecodedCaptions.map((caption, i) => i === index ? { ...caption, [field]: value } : caption), `captions:${index}:${field}`);
+
+    const setRows = (next: (DiarizedSegment | Caption)[]) => {
+        if (isTranscript) setDiarizedTranscript(next as DiarizedSegment[]);
+        else setTimecodedCaptions(next as Caption[]);
     };
-    
-    const handleCaptionChange = (index: number, field: keyof Caption, value: string) => {
-        const newCaptions = [...timecodedCaptions];
-        newCaptions[index] = { ...newCaptions[index], [field]: value };
-        setTimecodedCaptions(newCaptions);
+
+    const insertRow = (index: number) => {
+        const speaker = diarizedTranscript[Math.max(index, 0)]?.speaker || 'Speaker 1';
+        setRows(insertAfter<DiarizedSegment | Caption>(rows, index, isTranscript ? { speaker, startTime: '', endTime: '', text: '' } : { startTime: '', endTime: '', text: '' }));
+    };
+
+    // Splits at the caret when it is in this row, otherwise at the word break nearest the middle.
+    const splitRowAt = (index: number) => {
+        const text = rows[index].text;
+        const middle = text.lastIndexOf(' ', Math.floor(text.length / 2));
+        const offset = caret.current?.index === index ? caret.current.offset : middle > 0 ? middle : Math.floor(text.length / 2);
+        const at = splitTiming === 'playhead' ? Timecode.fromSeconds(useAppStore.getState().playheadTime) : undefined;
+        setRows(splitRow(rows, index, offset, at));
     };
 
-    const addTranscriptSegment = () => {
-        const last = diarizedTranscript[diarizedTranscript.length - 1];
-        setDiarizedTranscript([...diarizedTranscript, { speaker: last?.speaker || 'Speaker 1', startTime: last?.endTime || '00:00:00.000', endTime: last?.endTime || '00:00:00.000', text: '' }]);
+    const toggleRow = (index: number, extend: boolean) => {
+        const next = new Set(selection);
+        const indices = extend && lastToggled.current !== null
+            ? Array.from({ length: Math.abs(index - lastToggled.current) + 1 }, (_, i) => Math.min(index, lastToggled.current!) + i)
+            : [index];
+        const select = !selection.has(index);
+        indices.forEach(i => select ? next.add(i) : next.delete(i));
+        lastToggled.current = index;
+        setSelection(next);
     };
-    const removeTranscriptSegment = (index: number) => setDiarizedTranscript(diarizedTranscript.filter((_, i) => i !== index));
 
-    const addCaption = () => {
-        const last = timecodedCaptions[timecodedCaptions.length - 1];
-        setTimecodedCaptions([...timecodedCaptions, { startTime: last?.endTime || '00:00:00.000', endTime: last?.endTime || '00:00:00.000', text: '' }]);
+    const shiftSelection = () => {
+        const seconds = Number(bulkShift);
+        if (seconds) setRows(shiftRows(rows, selection, seconds));
+    };
+
+    const assignSpeaker = () => {
+        const speaker = bulkSpeaker.trim();
+        if (speaker) setDiarizedTranscript(diarizedTranscript.map((segment, i) => selection.has(i) ? { ...segment, speaker } : segment));
+    };
+
+    const fixSpelling = (index: number, fixes: GlossaryIssue[]) =>
+        setRows(rows.map((row, i) => i === index ? { ...row, text: applyGlossaryFixes(row.text, fixes) } : row));
+
+    const fixAllSpelling = () =>
+        setRows(rows.map((row, i) => issues[i].length > 0 ? { ...row, text: applyGlossaryFixes(row.text, issues[i]) } : row));
+
+    // Ctrl/Cmd+Z in the editor goes through the store, so it also undoes splits, merges and bulk edits.
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' && e.key.toLowerCase() !== 'y') return;
+        e.preventDefault();
+        if (e.key.toLowerCase() === 'y' || e.shiftKey) redo();
+        else undo();
+    };
+
+    // Replaces the open tab with cues from an SRT, WebVTT or ASS file.
+    const handleImport = async (file: File | null) => {
+        if (!file) return;
+        const target = activeTab === 'transcript' ? diarizedTranscript : timecodedCaptions;
+        if (target.length > 0 && !window.confirm(`Replace the current ${activeTab === 'transcript' ? 'transcript' : 'captions'} with ${file.name}?`)) return;
+        try {
+            const cues = await importSubtitles(file);
+            if (activeTab === 'transcript') setDiarizedTranscript(cuesToTranscript(cues));
+            else setTimecodedCaptions(cuesToCaptions(cues));
+        } catch (e: any) {
+            useAppStore.setState({ error: e?.message || 'Failed to import subtitles.' });
+        }
     };
-    const removeCaption = (index: number) => setTimecodedCaptions(timecodedCaptions.filter((_, i) => i !== index));
 
-    const handleExport = (format: 'ass' | 'json') => {
-        const content = format === 'ass' ? exportToAss(diarizedTranscript, timecodedCaptions) : exportToJson(diarizedTranscript, timecodedCaptions);
-        downloadFile(`transcript.${format}`, content, format === 'ass' ? 'text/plain' : 'application/json');
+    const handleExport = (format: keyof typeof EXPORT_TYPES) => {
+        const options = { source: subtitleSource, speakers: speakerLabels };
+        const content = format === 'ass' ? exportToAss(diarizedTranscript, timecodedCaptions, speakerProfiles)
+            : format === 'json' ? exportToJson(diarizedTranscript, timecodedCaptions)
+                : format === 'srt' ? exportToSrt(diarizedTranscript, timecodedCaptions, options)
+                    : exportToVtt(diarizedTranscript, timecodedCaptions, options);
+        downloadFile(`transcript.${format}`, content, EXPORT_TYPES[format]);
+    };
+
+    const rowActions = (index: number) => (
+        <div className="flex flex-col">
+            <div className="flex">
+                <button onMouseDown={e => e.preventDefault()} onClick={() => splitRowAt(index)} title={splitTiming === 'playhead' ? 'Split at the cursor, timed at the playhead' : 'Split at the cursor'} className="w-7 h-7 flex items-center justify-center rounded-full hover:bg-[--background-secondary] text-[--text-light]"><span className="material-symbols-outlined text-lg">content_cut</span></button>
+                <button onClick={() => setRows(mergeWithNext(rows, index))} disabled={index === rows.length - 1} title="Merge with the next row" className="w-7 h-7 flex items-center justify-center rounded-full hover:bg-[--background-secondary] text-[--text-light] disabled:opacity-30"><span className="material-symbols-outlined text-lg">merge</span></button>
+            </div>
+            <div className="flex">
+                <button onClick={() => insertRow(index)} title="Insert a row below" className="w-7 h-7 flex items-center justify-center rounded-full hover:bg-[--background-secondary] text-[--text-light]"><span className="material-symbols-outlined text-lg">add</span></button>
+                <button onClick={() => setRows(removeRows(rows, new Set([index])))} title="Delete" className="w-7 h-7 flex items-center justify-center rounded-full hover:bg-[--background-secondary] text-[--text-light] hover:text-red-500"><span className="material-symbols-outlined text-lg">delete</span></button>
+            </div>
+        </div>
+    );
+
+    const rowCheckbox = (index: number) => (
+        <input type="checkbox" checked={selection.has(index)} onChange={() => {}} onClick={e => toggleRow(index, e.shiftKey)} title="Select (Shift selects a range)" className="h-4 w-4 accent-blue-500 cursor-pointer" />
+    );
+
+    // Flags glossary misspellings in a row, each fixed with a click, and words the transcriber was unsure of, each played with a click.
+    const rowText = (index: number, text: string, onChange: (value: string) => void, unsure: TranscriptWord[] = []) => (
+        <div className="flex flex-col gap-1">
+            <textarea value={text} onChange={e => onChange(e.target.value)} onSelect={trackCaret(index)} rows={2} className={`w-full p-2 text-sm border rounded-md min-h-[40px] leading-snug resize-y bg-[--background] focus:border-blue-500 focus:outline-none ${issues[index]?.length ? 'border-amber-500' : 'border-[--border]'}`} />
+            {issues[index]?.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {issues[index].map(issue => (
+                        <button key={issue.start} onClick={() => fixSpelling(index, [issue])} title="Replace with the glossary spelling" className="text-xs px-1.5 py-0.5 rounded border border-amber-500 text-amber-700 dark:text-amber-400 hover:bg-amber-500/10">
+                            <s>{issue.found}</s> → {issue.replacement}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {unsure.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {unsure.map(word => (
+                        <button key={`${word.startTime}:${word.text}`} onClick={() => useAppStore.getState().seekVideo(Timecode.parseOrZero(word.startTime).seconds)} title={`Low confidence (${Math.round(word.confidence! * 100)}%); play from ${Timecode.parseOrZero(word.startTime).format()}`} className="text-xs px-1.5 py-0.5 rounded border border-dashed border-red-400 text-red-600 dark:text-red-400 hover:bg-red-500/10 inline-flex items-center gap-1">
+                            <span className="material-symbols-outlined text-xs leading-none">hearing</span> {word.text}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+
+    const trackCaret = (index: number) => (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+        caret.current = { index, offset: e.currentTarget.selectionStart };
     };
 
     const renderTranscript = () => (
         <div className="space-y-4">
             {diarizedTranscript.map((segment, index) => (
-                <div key={index} className="grid grid-cols-[180px_120px_1fr_40px] gap-2 items-center">
+                <div key={index} className="grid grid-cols-[16px_180px_120px_1fr_56px] gap-2 items-center">
+                    {rowCheckbox(index)}
                     <div className="flex items-center gap-1 text-xs text-[--text-light]">
-                        <input type="text" value={segment.startTime} onChange={e => handleTranscriptChange(index, 'startTime', e.target.value)} className="w-full text-center p-2 text-xs border border-[--border] rounded-md bg-[--background] focus:border-blue-500 focus:outline-none" />
+                        <TimecodeInput value={segment.startTime} onChange={value => handleTranscriptTimeChange(index, 'startTime', value)} />
                         -
-                        <input type="text" value={segment.endTime} onChange={e => handleTranscriptChange(index, 'endTime', e.target.value)} className="w-full text-center p-2 text-xs border border-[--border] rounded-md bg-[--background] focus:border-blue-500 focus:outline-none" />
+                        <TimecodeInput value={segment.endTime} onChange={value => handleTranscriptTimeChange(index, 'endTime', value)} />
                     </div>
-                    <input type="text" value={segment.speaker} onChange={e => handleTranscriptChange(index, 'speaker', e.target.value)} className="w-full p-2 text-sm border border-[--border] rounded-md bg-[--background] focus:border-blue-500 focus:outline-none" />
-                    <textarea value={segment.text} onChange={e => handleTranscriptChange(index, 'text', e.target.value)} rows={2} className="w-full p-2 text-sm border border-[--border] rounded-md min-h-[40px] leading-snug resize-y bg-[--background] focus:border-blue-500 focus:outline-none" />
-                    <button onClick={() => removeTranscriptSegment(index)} className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-[--background-secondary] text-[--text-light] hover:text-red-500"><span className="material-symbols-outlined text-xl">delete</span></button>
+                    <input type="text" list="transcript-speakers" value={segment.speaker} onChange={e => handleTranscriptChange(index, 'speaker', e.target.value)} className="w-full p-2 text-sm border border-[--border] rounded-md bg-[--background] focus:border-blue-500 focus:outline-none" />
+                    {rowText(index, segment.text, value => handleTranscriptChange(index, 'text', value), lowConfidenceWords(segment))}
+                    {rowActions(index)}
                 </div>
             ))}
+            <datalist id="transcript-speakers">
+                {speakers.map(speaker => <option key={speaker} value={speaker} />)}
+            </datalist>
         </div>
     );
     
     const renderCaptions = () => (
          <div className="space-y-4">
             {timecodedCaptions.map((caption, index) => (
-                <div key={index} className="grid grid-cols-[180px_1fr_40px] gap-2 items-center">
+                <div key={index} className="grid grid-cols-[16px_180px_1fr_56px] gap-2 items-center">
+                    {rowCheckbox(index)}
                     <div className="flex items-center gap-1 text-xs text-[--text-light]">
-                        <input type="text" value={caption.startTime} onChange={e => handleCaptionChange(index, 'startTime', e.target.value)} className="w-full text-center p-2 text-xs border border-[--border] rounded-md bg-[--background] focus:border-blue-500 focus:outline-none" />
+                        <TimecodeInput value={caption.startTime} onChange={value => handleCaptionChange(index, 'startTime', value)} />
                         -
-                        <input type="text" value={caption.endTime} onChange={e => handleCaptionChange(index, 'endTime', e.target.value)} className="w-full text-center p-2 text-xs border border-[--border] rounded-md bg-[--background] focus:border-blue-500 focus:outline-none" />
+                        <TimecodeInput value={caption.endTime} onChange={value => handleCaptionChange(index, 'endTime', value)} />
                     </div>
-                    <textarea value={caption.text} onChange={e => handleCaptionChange(index, 'text', e.target.value)} rows={2} className="w-full p-2 text-sm border border-[--border] rounded-md min-h-[40px] leading-snug resize-y bg-[--background] focus:border-blue-500 focus:outline-none" />
-                    <button onClick={() => removeCaption(index)} className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-[--background-secondary] text-[--text-light] hover:text-red-500"><span className="material-symbols-outlined text-xl">delete</span></button>
+                    {rowText(index, caption.text, value => handleCaptionChange(index, 'text', value))}
+                    {rowActions(index)}
                 </div>
             ))}
         </div>
     );
 
+    const renderSelectionBar = () => (
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-[--border] bg-[--background-secondary] text-xs">
+            <input type="checkbox" checked={selection.size === rows.length} onChange={e => setSelection(e.target.checked ? new Set(rows.map((_, i) => i)) : new Set())} title="Select all" className="h-4 w-4 accent-blue-500 cursor-pointer" />
+            <span className="mr-2">{selection.size} selected</span>
+            {isTranscript && (
+                <>
+                    <input type="text" list="transcript-speakers" value={bulkSpeaker} onChange={e => setBulkSpeaker(e.target.value)} placeholder="Speaker" className="w-28 px-2 py-1 border border-[--border] rounded-md bg-[--background]" />
+                    <button onClick={assignSpeaker} disabled={!bulkSpeaker.trim()} className="px-2 py-1 border border-[--border] rounded-md hover:bg-white dark:hover:bg-gray-700 disabled:opacity-50">Set Speaker</button>
+                </>
+            )}
+            <input type="number" step="0.1" value={bulkShift} onChange={e => setBulkShift(e.target.value)} title="Seconds; negative moves earlier" className="w-20 px-2 py-1 border border-[--border] rounded-md bg-[--background]" />
+            <button onClick={shiftSelection} disabled={!Number(bulkShift)} className="px-2 py-1 border border-[--border] rounded-md hover:bg-white dark:hover:bg-gray-700 disabled:opacity-50">Shift Time</button>
+            <button onClick={() => setRows(removeRows(rows, selection))} className="px-2 py-1 border border-[--border] rounded-md hover:bg-white dark:hover:bg-gray-700 hover:text-red-500 inline-flex items-center gap-1"><span className="material-symbols-outlined text-sm">delete</span> Delete</button>
+            <button onClick={() => setSelection(new Set())} className="ml-auto px-2 py-1 rounded-md hover:bg-white dark:hover:bg-gray-700">Clear</button>
+        </div>
+    );
+
     return (
-        <div className="border border-[--border] rounded-lg overflow-hidden flex flex-col max-h-[400px] bg-[--background]">
+        <div onKeyDown={handleKeyDown} className="border border-[--border] rounded-lg overflow-hidden flex flex-col max-h-[400px] bg-[--background]">
             <div className="flex justify-between items-center bg-[--background-secondary] border-b border-[--border] px-2">
                 <div className="flex">
                     <button onClick={() => setActiveTab('transcript')} className={`border-b-2 px-4 py-2 text-sm ${activeTab === 'transcript' ? 'border-blue-500 text-[--text]' : 'border-transparent text-[--text-light]'}`}>Diarized Transcript</button>
                     <button onClick={() => setActiveTab('captions')} className={`border-b-2 px-4 py-2 text-sm ${activeTab === 'captions' ? 'border-blue-500 text-[--text]' : 'border-transparent text-[--text-light]'}`}>A/V Captions</button>
                 </div>
                 <div className="flex gap-2">
-                    {activeTab === 'transcript' ? <button onClick={addTranscriptSegment} className="text-xs px-2 py-1 border border-[--border] rounded-md hover:bg-white dark:hover:bg-gray-700 inline-flex items-center gap-1"><span className="material-symbols-outlined text-sm">add</span> Add</button> : <button onClick={addCaption} className="text-xs px-2 py-1 border border-[--border] rounded-md hover:bg-white dark:hover:bg-gray-700 inline-flex items-center gap-1"><span className="material-symbols-outlined text-sm">add</span> Add</button>}
+                    {isTranscript && <button onClick={() => setShowSpeakers(true)} disabled={speakers.length === 0} title="Rename, merge and colour speakers" className="text-xs px-2 py-1 border border-[--border] rounded-md hover:bg-white dark:hover:bg-gray-700 inline-flex items-center gap-1 disabled:opacity-40"><span className="material-symbols-outlined text-sm">groups</span> Speakers</button>}
+                    <button onClick={() => setShowGlossary(true)} title="Terms to spell consistently" className="text-xs px-2 py-1 border border-[--border] rounded-md hover:bg-white dark:hover:bg-gray-700 inline-flex items-center gap-1"><span className="material-symbols-outlined text-sm">spellcheck</span> Glossary</button>
+                    {issueCount > 0 && <button onClick={fixAllSpelling} title="Replace every flagged spelling with its glossary term" className="text-xs px-2 py-1 border border-amber-500 text-amber-700 dark:text-amber-400 rounded-md hover:bg-amber-500/10 inline-flex items-center gap-1">Fix {issueCount}</button>}
+                    <button onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)" className="text-xs px-1 py-1 border border-[--border] rounded-md hover:bg-white dark:hover:bg-gray-700 inline-flex items-center disabled:opacity-40"><span className="material-symbols-outlined text-sm">undo</span></button>
+                    <button onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className="text-xs px-1 py-1 border border-[--border] rounded-md hover:bg-white dark:hover:bg-gray-700 inline-flex items-center disabled:opacity-40"><span className="material-symbols-outlined text-sm">redo</span></button>
+                    <button onClick={() => insertRow(rows.length - 1)} className="text-xs px-2 py-1 border border-[--border] rounded-md hover:bg-white dark:hover:bg-gray-700 inline-flex items-center gap-1"><span className="material-symbols-outlined text-sm">add</span> Add</button>
+                    <select value={splitTiming} onChange={e => setSplitTiming(e.target.value as 'text' | 'playhead')} title="Where a split row's timing is divided" className="text-xs px-1 py-1 border border-[--border] rounded-md bg-[--background]">
+                        <option value="text">Split by text</option>
+                        <option value="playhead">Split at playhead</option>
+                    </select>
+                    <label htmlFor="subtitle-import" title={`Import SRT, WebVTT or ASS as the ${activeTab === 'transcript' ? 'diarized transcript' : 'A/V captions'}`} className="cursor-pointer text-xs px-2 py-1 border border-[--border] rounded-md hover:bg-white dark:hover:bg-gray-700 inline-flex items-center gap-1"><span className="material-symbols-outlined text-sm">upload_file</span> Import</label>
+                    <input id="subtitle-import" type="file" accept=".srt,.vtt,.ass,.ssa" onChange={e => handleImport(e.target.files?.[0] || null)} className="hidden" value="" />
                     <button onClick={() => handleExport('json')} className="text-xs px-2 py-1 border border-[--border] rounded-md hover:bg-white dark:hover:bg-gray-700 inline-flex items-center gap-1"><span className="material-symbols-outlined text-sm">code</span> .json</button>
                     <button onClick={() => handleExport('ass')} className="text-xs px-2 py-1 border border-[--border] rounded-md hover:bg-white dark:hover:bg-gray-700 inline-flex items-center gap-1"><span className="material-symbols-outlined text-sm">subtitles</span> .ass</button>
+                    <select value={subtitleSource} onChange={e => setSubtitleSource(e.target.value as SubtitleSource)} title="Cues to include in .srt and .vtt" className="text-xs px-1 py-1 border border-[--border] rounded-md bg-[--background]">
+                        <option value="both">Both</option>
+                        <option value="transcript">Transcript</option>
+                        <option value="captions">Captions</option>
+                    </select>
+                    <select value={speakerLabels} onChange={e => setSpeakerLabels(e.target.value as SpeakerLabels)} title="How speakers are marked in .srt and .vtt" className="text-xs px-1 py-1 border border-[--border] rounded-md bg-[--background]">
+                        <option value="voice">Voice tags</option>
+                        <option value="prefix">Prefixes</option>
+                        <option value="none">No speakers</option>
+                    </select>
+                    <button onClick={() => handleExport('srt')} className="text-xs px-2 py-1 border border-[--border] rounded-md hover:bg-white dark:hover:bg-gray-700 inline-flex items-center gap-1"><span className="material-symbols-outlined text-sm">closed_caption</span> .srt</button>
+                    <button onClick={() => handleExport('vtt')} className="text-xs px-2 py-1 border border-[--border] rounded-md hover:bg-white dark:hover:bg-gray-700 inline-flex items-center gap-1"><span className="material-symbols-outlined text-sm">closed_caption</span> .vtt</button>
                 </div>
             </div>
+            {selection.size > 0 && renderSelectionBar()}
             <div className="overflow-y-auto p-4 bg-[--background]">
                 {activeTab === 'transcript' ? renderTranscript() : renderCaptions()}
             </div>
+            {showSpeakers && <SpeakerPanel onClose={() => setShowSpeakers(false)} />}
+            {showGlossary && <GlossaryModal onClose={() => setShowGlossary(false)} />}
         </div>
     );
 }
\ No newline at end of file
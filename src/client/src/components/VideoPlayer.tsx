@@ -1,6 +1,8 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { timeToSecs } from '../utils/utils';
+import { Timecode } from '@screenguide/shared/timecode';
 import { Caption } from '../types';
+import { useAppStore } from '../store';
+import Timeline from './Timeline';
 
 interface VideoPlayerProps {
   url: string;
@@ -11,31 +13,43 @@ export default function VideoPlayer({ url, captions }: VideoPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
-  const [currentCaption, setCurrentCaption] = useState('');
+  const setPlayheadTime = useAppStore(state => state.setPlayheadTime);
+  const seekRequest = useAppStore(state => state.seekRequest);
 
+  useEffect(() => setPlayheadTime(currentTime), [currentTime, setPlayheadTime]);
+
+  useEffect(() => {
+    if (seekRequest && videoRef.current) {
+      videoRef.current.currentTime = seekRequest.seconds;
+      setCurrentTime(seekRequest.seconds);
+    }
+  }, [seekRequest]);
+
+  // The listeners only track the playhead, so caption edits from the editor or the timeline never touch the media element.
   useEffect(() => {
     const video = videoRef.current;
     if (!video) return;
 
-    const onTimeUpdate = () => {
-      setCurrentTime(video.currentTime);
-      const current = [...captions].reverse().find(c => video.currentTime >= timeToSecs(c.startTime));
-      setCurrentCaption(current ? current.text : '');
-    };
+    const onTimeUpdate = () => setCurrentTime(video.currentTime);
     const onLoadedMetadata = () => setDuration(video.duration);
 
     video.addEventListener('timeupdate', onTimeUpdate);
     video.addEventListener('loadedmetadata', onLoadedMetadata);
-    video.load();
-
     return () => {
       video.removeEventListener('timeupdate', onTimeUpdate);
       video.removeEventListener('loadedmetadata', onLoadedMetadata);
     };
-  }, [url, captions]);
+  }, [url]);
+
+  // Reloading sends playback back to the start, so it happens only for a new recording.
+  useEffect(() => {
+    videoRef.current?.load();
+  }, [url]);
 
   if (!url) return null;
 
+  const currentCaption = [...captions].reverse().find(c => currentTime >= Timecode.parseOrZero(c.startTime).seconds)?.text || '';
+
   const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
     if (!videoRef.current || duration <= 0) return;
     const rect = e.currentTarget.getBoundingClientRect();
@@ -43,6 +57,12 @@ export default function VideoPlayer({ url, captions }: VideoPlayerProps) {
     videoRef.current.currentTime = duration * percentage;
   };
 
+  const seek = (seconds: number) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = seconds;
+    setCurrentTime(seconds);
+  };
+
   const jumpToTimecode = (seconds: number) => {
     if (!videoRef.current) return;
     videoRef.current.currentTime = seconds;
@@ -65,7 +85,7 @@ export default function VideoPlayer({ url, captions }: VideoPlayerProps) {
           <div className="relative w-[98%] mx-auto h-2 bg-[--border] rounded-full cursor-pointer" onClick={handleSeek}>
             <div className="absolute top-0 left-0 h-full bg-blue-500 rounded-full" style={{ width: `${(currentTime / duration) * 100}%` }}></div>
             {captions.map((caption, index) => {
-              const seconds = timeToSecs(caption.startTime);
+              const seconds = Timecode.parseOrZero(caption.startTime).seconds;
               const position = (seconds / duration) * 100;
               if (position > 100) return null;
               return (
@@ -77,6 +97,7 @@ export default function VideoPlayer({ url, captions }: VideoPlayerProps) {
           </div>
         </div>
       )}
+      {duration > 0 && <Timeline currentTime={currentTime} duration={duration} onSeek={seek} />}
     </div>
   );
 }
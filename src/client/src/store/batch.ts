@@ -0,0 +1,185 @@
+import { create } from 'zustand';
+import JSZip from 'jszip';
+import { DiarizedSegment, Caption, FrameOptions, Job, OutputFormat } from '../types';
+import * as api from '../api';
+import { uploadRecording, discardRecording, transcriptText, UploadedRecording } from './pipeline';
+import { addSessionFiles, batchIndexPage, BatchIndexEntry } from '../utils/session';
+import { downloadFile } from '../utils/exportUtils';
+import { errorMessage } from '../utils/errors';
+import { parseGlossary } from '../utils/glossary';
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem extends Partial<UploadedRecording> {
+  id: number;
+  file: File;
+  /** Per-recording overrides; empty strings fall back to the batch defaults. */
+  description: string;
+  prompt: string;
+  status: BatchItemStatus;
+  /** Format the content was generated in; the batch default may have changed since. */
+  format: OutputFormat;
+  stage: string;
+  progress: number;
+  error: string;
+  diarizedTranscript: DiarizedSegment[];
+  timecodedCaptions: Caption[];
+  content: string;
+}
+
+export interface BatchDefaults {
+  description: string;
+  prompt: string;
+  /** Glossary text as typed, one term per line; every project in the batch gets it. */
+  glossary: string;
+  outputFormat: OutputFormat;
+  skipAudio: boolean;
+  chunked: boolean;
+}
+
+interface BatchState extends BatchDefaults {
+  items: BatchItem[];
+  isRunning: boolean;
+  isBundling: boolean;
+  error: string;
+
+  setDefaults: (defaults: Partial<BatchDefaults>) => void;
+  addFiles: (files: File[]) => void;
+  updateItem: (id: number, fields: Partial<Pick<BatchItem, 'description' | 'prompt'>>) => void;
+  removeItem: (id: number) => void;
+  clearBatch: () => void;
+  runBatch: () => Promise<void>;
+  cancelBatch: () => void;
+  downloadBundle: (frameOptions: FrameOptions) => Promise<void>;
+}
+
+let nextItemId = 1;
+let batchController: AbortController | null = null;
+
+// Folder names in the bundle keep the batch order and stay readable in a file manager.
+const folderName = (item: BatchItem, index: number) =>
+  `${String(index + 1).padStart(2, '0')}-${item.file.name.replace(/\.[^.]+$/, '').replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'recording'}`;
+
+// Runs one recording through the same steps as `startProcessing` followed by a guide job. A retried item that
+// was already uploaded keeps its project and starts at transcription.
+const processItem = async (item: BatchItem, defaults: BatchDefaults, update: (fields: Partial<BatchItem>) => void, signal: AbortSignal) => {
+  const description = item.description || defaults.description;
+  const prompt = item.prompt || defaults.prompt;
+  const format = defaults.outputFormat;
+  const glossary = parseGlossary(defaults.glossary);
+  const track = (start: number, end: number) => (job: Job) => update({ stage: job.stage, progress: start + (job.progress / 100) * (end - start) });
+
+  update({ status: 'processing', stage: 'Uploading', progress: 0, error: '' });
+  const ids = item.projectId && item.recordingId && item.mediaId
+    ? { mediaId: item.mediaId, projectId: item.projectId, recordingId: item.recordingId }
+    : await uploadRecording(item.file, { description, userPrompt: prompt, outputFormat: format }, p => update({ progress: p * 20 }), update, signal);
+  if (glossary.length > 0) await api.saveGlossary(ids.projectId, glossary);
+  const jobParams = { ...ids, description, userPrompt: prompt, glossary, chunked: defaults.chunked || undefined };
+
+  const diarizedTranscript = defaults.skipAudio ? [] : await api.runJob<DiarizedSegment[]>('transcribe', jobParams, track(20, 50), signal);
+  update({ diarizedTranscript });
+  const timecodedCaptions = await api.runJob<Caption[]>('captions', jobParams, track(defaults.skipAudio ? 20 : 50, 75), signal) || [];
+  update({ timecodedCaptions });
+  const content = await api.runJob<string>('guide', { ...jobParams, transcript: transcriptText(diarizedTranscript), prompt, format }, track(75, 100), signal);
+  update({ content, format, status: 'done', stage: 'Done', progress: 100 });
+};
+
+export const useBatchStore = create<BatchState>((set, get) => ({
+  items: [],
+  description: '',
+  prompt: '',
+  glossary: '',
+  outputFormat: 'guide',
+  skipAudio: false,
+  chunked: false,
+  isRunning: false,
+  isBundling: false,
+  error: '',
+
+  setDefaults: (defaults) => set(defaults),
+
+  addFiles: (files) => set(state => ({
+    items: [...state.items, ...files.map((file): BatchItem => ({
+      id: nextItemId++, file, description: '', prompt: '', status: 'queued', format: get().outputFormat, stage: '', progress: 0, error: '',
+      diarizedTranscript: [], timecodedCaptions: [], content: '',
+    }))],
+  })),
+
+  updateItem: (id, fields) => set(state => ({ items: state.items.map(item => item.id === id ? { ...item, ...fields } : item) })),
+
+  removeItem: (id) => set(state => ({ items: state.items.filter(item => item.id !== id) })),
+
+  clearBatch: () => set({ items: [], error: '' }),
+
+  // Processes every item that is not done yet, one at a time; a failure is recorded on its item and the batch moves on.
+  runBatch: async () => {
+    if (get().isRunning) return;
+    const controller = new AbortController();
+    batchController = controller;
+    set({ isRunning: true, error: '' });
+    const update = (id: number) => (fields: Partial<BatchItem>) => set(state => ({ items: state.items.map(item => item.id === id ? { ...item, ...fields } : item) }));
+    try {
+      // Reads the list on every step so files added while the batch runs are picked up too.
+      for (let index = 0; index < get().items.length; index++) {
+        const item = get().items[index];
+        const { id } = item;
+        if (item.status === 'done') continue;
+        if (controller.signal.aborted) {
+          update(id)({ status: 'cancelled', stage: '' });
+          continue;
+        }
+        try {
+          await processItem(item, get(), update(id), controller.signal);
+        } catch (e: any) {
+          if (!controller.signal.aborted) {
+            update(id)({ status: 'failed', stage: '', error: errorMessage(e, 'Processing failed.') });
+            continue;
+          }
+          // A cancelled item starts over from the upload next time, like a cancelled single recording.
+          const { mediaId, projectId } = get().items[index];
+          update(id)({ status: 'cancelled', stage: '', progress: 0, mediaId: undefined, projectId: undefined, recordingId: undefined });
+          await discardRecording({ mediaId, projectId });
+        }
+      }
+    } finally {
+      batchController = null;
+      set({ isRunning: false });
+    }
+  },
+
+  cancelBatch: () => batchController?.abort(),
+
+  // One ZIP with a session folder per finished recording and an index page that also lists the failures.
+  downloadBundle: async (frameOptions) => {
+    const { items } = get();
+    set({ isBundling: true, error: '' });
+    try {
+      const zip = new JSZip();
+      const entries: BatchIndexEntry[] = [];
+      for (const [index, item] of items.entries()) {
+        if (item.status !== 'done' || !item.mediaId) {
+          entries.push({ name: item.file.name, folder: '', format: item.format, error: item.error || 'Not processed.' });
+          continue;
+        }
+        const folder = folderName(item, index);
+        await addSessionFiles(zip.folder(folder)!, {
+          mediaId: item.mediaId,
+          description: item.description || get().description,
+          prompt: item.prompt || get().prompt,
+          glossary: parseGlossary(get().glossary),
+          format: item.format,
+          diarizedTranscript: item.diarizedTranscript,
+          timecodedCaptions: item.timecodedCaptions,
+          content: item.content,
+        }, frameOptions);
+        entries.push({ name: item.file.name, folder, format: item.format, error: '' });
+      }
+      zip.file('index.html', batchIndexPage(entries));
+      downloadFile('ScreenGuide-Batch.zip', await zip.generateAsync({ type: 'blob' }), 'application/zip');
+    } catch (e: any) {
+      set({ error: errorMessage(e, 'Failed to create the batch bundle.') });
+    } finally {
+      set({ isBundling: false });
+    }
+  },
+}));
@@ -1,62 +1,69 @@
 import { create } from 'zustand';
-import { DiarizedSegment, Caption } from '../types';
+import { DiarizedSegment, Caption, GlossaryTerm, Job, OutputFormat, Speaker } from '../types';
 import * as api from '../api';
+import { uploadRecording, discardRecording, transcriptText } from './pipeline';
+import { readSessionZip } from '../utils/session';
+import { saveLocalSession, getLocalSession, getLocalVideo, deleteLocalSession, LocalSession } from '../utils/localSessions';
+import { errorMessage, isRetryable } from '../utils/errors';
+import { renameSpeaker, speakersForPrompt } from '../utils/speakers';
+import { syncWords } from '../utils/words';
 
-const fileToBase64 = (file: File, onProgress: (percent: number) => void): Promise<string> => new Promise((resolve, reject) => {
-  const reader = new FileReader();
-  reader.readAsDataURL(file);
-  reader.onprogress = (event) => {
-    if (event.lengthComputable) {
-      onProgress((event.loaded / event.total) * 100);
-    }
-  };
-  reader.onload = () => {
-    onProgress(100);
-    resolve((reader.result as string).split(',')[1]);
-  };
-  reader.onerror = reject;
+// Maps a job's own 0-100 progress onto a slice of the overall progress bar and shows its current stage.
+const trackJob = (set: (partial: Partial<AppState>) => void, start = 0, end = 100) => (job: Job) => set({
+  progress: start + (job.progress / 100) * (end - start),
+  loadingMessage: `${job.stage}...`,
 });
 
-function simulateProgress<T>(
-  task: Promise<T>,
-  onProgress: (percent: number) => void,
-): Promise<T> {
-  let progress = 0;
-  onProgress(progress);
-  const interval = setInterval(() => {
-    progress += Math.random() * 5;
-    if (progress >= 95) {
-      clearInterval(interval);
-      onProgress(95);
-    } else {
-      onProgress(progress);
-    }
-  }, 200);
-  return task
-    .then(result => {
-      clearInterval(interval);
-      onProgress(100);
-      return result;
-    })
-    .catch(error => {
-      clearInterval(interval);
-      onProgress(0);
-      throw error;
-    });
+// Shows a failure and keeps `retry` only when the error says that trying again can help.
+const failure = (e: unknown, fallback: string, retry?: () => Promise<void>): Partial<AppState> => ({
+  error: errorMessage(e, fallback),
+  retry: retry && isRetryable(e) ? retry : null,
+});
+
+const LAST_PROJECT_KEY = 'lastProjectId';
+const AUTOSAVE_DELAY_MS = 1000;
+
+type SaveTarget = 'project' | 'glossary' | 'transcript' | 'captions' | 'speakers' | 'document';
+const pendingSaves = new Set<SaveTarget>();
+let autosaveTimer: ReturnType<typeof setTimeout> | undefined;
+let isHydrating = false;
+let generationController: AbortController | null = null;
+let processingController: AbortController | null = null;
+// Key of the IndexedDB copy of what the editor shows; a new one starts whenever the editor is cleared.
+let localSessionId: string = crypto.randomUUID();
+let localSaveTimer: ReturnType<typeof setTimeout> | undefined;
+let savedVideo: { sessionId: string; file: File | null } | null = null;
+
+// Undo keeps whole snapshots of the transcript, captions and speakers; rows are never mutated, so unchanged ones are shared between them.
+interface EditSnapshot {
+  diarizedTranscript: DiarizedSegment[];
+  timecodedCaptions: Caption[];
+  speakers: Speaker[];
 }
+const MAX_UNDO_STEPS = 100;
+const COALESCE_MS = 1000;
+let lastEdit = { key: '', at: 0 };
+let isRecordingEdit = false;
 
 interface AppState {
+  projectId: string;
+  recordingId: string;
   videoFile: File | null;
   videoUrl: string;
-  videoBase64: string;
+  mediaId: string;
   videoMimeType: string;
   error: string;
+  retry: (() => Promise<void>) | null;
   isRecording: boolean;
   diarizedTranscript: DiarizedSegment[];
   timecodedCaptions: Caption[];
+  /** Roles and colours the user has given speakers in the transcript. */
+  speakers: Speaker[];
+  /** Project terms passed to every transcription and generation request. */
+  glossary: GlossaryTerm[];
   videoDescription: string;
   userPrompt: string;
-  outputFormat: string;
+  outputFormat: OutputFormat;
   generatedContent: string;
   videoSummary: string;
   isProcessingVideo: boolean;
@@ -67,28 +74,79 @@ interface AppState {
   progress: number;
   captioningFailed: boolean;
   isRetryingCaptions: boolean;
+  undoStack: EditSnapshot[];
+  redoStack: EditSnapshot[];
+  /** Where the video player is, in seconds; the editor can split segments there. */
+  playheadTime: number;
+  /** Set to move the video player; a new object each time, so seeking to the same time twice still moves it. */
+  seekRequest: { seconds: number } | null;
 
-  setDiarizedTranscript: (transcript: DiarizedSegment[]) => void;
-  setTimecodedCaptions: (captions: Caption[]) => void;
+  /** An edit that can be undone. Consecutive edits with the same `coalesceKey`, like typing in one field, form one step. */
+  setDiarizedTranscript: (transcript: DiarizedSegment[], coalesceKey?: string) => void;
+  setTimecodedCaptions: (captions: Caption[], coalesceKey?: string) => void;
+  setSpeakers: (speakers: Speaker[], coalesceKey?: string) => void;
+  /** Relabels every segment of `from`; renaming to an existing speaker merges the two. */
+  renameSpeaker: (from: string, to: string) => void;
+  /** Several renames as one undo step, keyed by the current name. */
+  renameSpeakers: (renames: Record<string, string>) => void;
+  setGlossary: (glossary: GlossaryTerm[]) => void;
+  undo: () => void;
+  redo: () => void;
+  setPlayheadTime: (seconds: number) => void;
+  seekVideo: (seconds: number) => void;
   setGeneratedContent: (content: string) => void;
-  setOutputFormat: (format: string) => void;
+  setOutputFormat: (format: OutputFormat) => void;
   resetState: () => void;
-  startProcessing: (file: File, description: string, prompt: string, skipAudio: boolean) => Promise<void>;
+  loadProject: (id: string) => Promise<void>;
+  saveProject: () => Promise<void>;
+  deleteProject: (id: string) => Promise<void>;
+  resumeJobs: () => Promise<void>;
+  startProcessing: (file: File, description: string, prompt: string, glossary: GlossaryTerm[], skipAudio: boolean, chunked: boolean, transcript?: DiarizedSegment[]) => Promise<void>;
+  processRecording: (skipAudio: boolean, chunked: boolean) => Promise<void>;
+  importSession: (file: File) => Promise<void>;
+  restoreLocalSession: (id: string) => Promise<void>;
+  retryFailedAction: () => Promise<void>;
+  cancelProcessing: () => void;
   retryCaptions: () => Promise<void>;
   generateSummary: () => Promise<void>;
   generateContent: () => Promise<void>;
+  stopGenerating: () => void;
   rewriteText: (textToRewrite: string, prompt: string) => Promise<string | null>;
 }
 
+const snapshot = ({ diarizedTranscript, timecodedCaptions, speakers }: EditSnapshot): EditSnapshot => ({ diarizedTranscript, timecodedCaptions, speakers });
+
+// Applies a user edit, pushing the previous transcript, captions and speakers onto the undo stack unless `changes` already
+// sets the stacks, as undo and redo do.
+function recordEdit(set: (fn: (state: AppState) => Partial<AppState>) => void, changes: Partial<AppState>, coalesceKey = '') {
+  isRecordingEdit = true;
+  try {
+    set(state => {
+      if (changes.undoStack) return changes;
+      const now = Date.now();
+      const coalesce = !!coalesceKey && coalesceKey === lastEdit.key && now - lastEdit.at < COALESCE_MS && state.undoStack.length > 0;
+      lastEdit = { key: coalesceKey, at: now };
+      return { ...changes, undoStack: coalesce ? state.undoStack : [...state.undoStack, snapshot(state)].slice(-MAX_UNDO_STEPS), redoStack: [] };
+    });
+  } finally {
+    isRecordingEdit = false;
+  }
+}
+
 export const useAppStore = create<AppState>((set, get) => ({
+  projectId: '',
+  recordingId: '',
   videoFile: null,
   videoUrl: '',
-  videoBase64: '',
+  mediaId: '',
   videoMimeType: '',
   error: '',
+  retry: null,
   isRecording: false,
   diarizedTranscript: [],
   timecodedCaptions: [],
+  speakers: [],
+  glossary: [],
   videoDescription: '',
   userPrompt: '',
   outputFormat: 'guide',
@@ -102,22 +160,149 @@ export const useAppStore = create<AppState>((set, get) => ({
   progress: 0,
   captioningFailed: false,
   isRetryingCaptions: false,
+  undoStack: [],
+  redoStack: [],
+  playheadTime: 0,
+  seekRequest: null,
 
-  setDiarizedTranscript: (transcript) => set({ diarizedTranscript: transcript }),
-  setTimecodedCaptions: (captions) => set({ timecodedCaptions: captions }),
+  // Every text edit passes through here, so word timings follow typing, replacements and spelling fixes alike.
+  setDiarizedTranscript: (transcript, coalesceKey) => recordEdit(set, { diarizedTranscript: transcript.map(syncWords) }, coalesceKey),
+  setTimecodedCaptions: (captions, coalesceKey) => recordEdit(set, { timecodedCaptions: captions }, coalesceKey),
+  setSpeakers: (speakers, coalesceKey) => recordEdit(set, { speakers }, coalesceKey),
+  renameSpeaker: (from, to) => get().renameSpeakers({ [from]: to }),
+  renameSpeakers: (renames) => {
+    let { diarizedTranscript: transcript, speakers } = get();
+    for (const [from, to] of Object.entries(renames)) {
+      if (to.trim() && to.trim() !== from) ({ transcript, speakers } = renameSpeaker(transcript, speakers, from, to.trim()));
+    }
+    if (transcript !== get().diarizedTranscript) recordEdit(set, { diarizedTranscript: transcript, speakers });
+  },
+  setGlossary: (glossary) => set({ glossary }),
+  undo: () => {
+    const { undoStack, redoStack } = get();
+    if (undoStack.length === 0) return;
+    lastEdit = { key: '', at: 0 };
+    recordEdit(set, { ...undoStack[undoStack.length - 1], undoStack: undoStack.slice(0, -1), redoStack: [...redoStack, snapshot(get())] });
+  },
+  redo: () => {
+    const { undoStack, redoStack } = get();
+    if (redoStack.length === 0) return;
+    lastEdit = { key: '', at: 0 };
+    recordEdit(set, { ...redoStack[redoStack.length - 1], redoStack: redoStack.slice(0, -1), undoStack: [...undoStack, snapshot(get())] });
+  },
+  setPlayheadTime: (seconds) => set({ playheadTime: seconds }),
+  seekVideo: (seconds) => set({ seekRequest: { seconds } }),
   setGeneratedContent: (content) => set({ generatedContent: content }),
   setOutputFormat: (format) => set({ outputFormat: format }),
 
-  resetState: () => set({
-    videoFile: null, videoUrl: '', videoBase64: '', videoMimeType: '', error: '',
-    diarizedTranscript: [], timecodedCaptions: [], videoDescription: '', userPrompt: '',
-    outputFormat: 'guide', generatedContent: '', videoSummary: '', isProcessingVideo: false,
-    isGenerating: false, isZipping: false, isSummarizing: false, loadingMessage: '',
-    progress: 0, captioningFailed: false, isRetryingCaptions: false,
-  }),
+  resetState: () => {
+    // Edits still waiting for the local autosave belong to the session being cleared.
+    if (localSaveTimer) saveLocally();
+    localSessionId = crypto.randomUUID();
+    set({
+      projectId: '', recordingId: '', videoFile: null, videoUrl: '', mediaId: '', videoMimeType: '', error: '', retry: null,
+      diarizedTranscript: [], timecodedCaptions: [], speakers: [], glossary: [], videoDescription: '', userPrompt: '',
+      outputFormat: 'guide', generatedContent: '', videoSummary: '', isProcessingVideo: false,
+      isGenerating: false, isZipping: false, isSummarizing: false, loadingMessage: '',
+      progress: 0, captioningFailed: false, isRetryingCaptions: false, playheadTime: 0, seekRequest: null,
+    });
+  },
+
+  loadProject: async (id) => {
+    try {
+      const project = await api.getProject(id);
+      const recording = project.recordings[project.recordings.length - 1];
+      const document = project.documents.find(d => d.format === project.outputFormat) || project.documents[0];
+      if (project.id !== get().projectId) {
+        if (localSaveTimer) saveLocally();
+        localSessionId = project.id;
+      }
+      isHydrating = true;
+      set({
+        projectId: project.id,
+        recordingId: recording?.id || '',
+        videoFile: null,
+        videoUrl: recording ? api.mediaContentUrl(recording.mediaId) : '',
+        mediaId: recording?.mediaId || '',
+        videoMimeType: recording?.mimeType || '',
+        diarizedTranscript: (recording?.transcript || []).map(({ speaker, startTime, endTime, text, words }) => ({ speaker, startTime, endTime, text, ...(words ? { words } : {}) })),
+        timecodedCaptions: (recording?.captions || []).map(({ startTime, endTime, text }) => ({ startTime, endTime, text })),
+        speakers: (recording?.speakers || []).map(({ name, role, color }) => ({ name, ...(role ? { role } : {}), ...(color ? { color } : {}) })),
+        glossary: project.glossary || [],
+        videoDescription: project.description,
+        userPrompt: project.userPrompt,
+        outputFormat: (document?.format || project.outputFormat) as OutputFormat,
+        generatedContent: document?.content || '',
+        videoSummary: document?.summary || '',
+        error: '',
+        retry: null,
+      });
+      isHydrating = false;
+      localStorage.setItem(LAST_PROJECT_KEY, project.id);
+      await get().resumeJobs();
+    } catch (e: any) {
+      set(failure(e, 'Failed to load project.', () => get().loadProject(id)));
+      if (!isRetryable(e)) localStorage.removeItem(LAST_PROJECT_KEY);
+    }
+  },
+
+  saveProject: async () => {
+    const { projectId, recordingId, diarizedTranscript, timecodedCaptions, speakers, glossary, videoDescription, userPrompt, outputFormat, generatedContent, videoSummary } = get();
+    if (!projectId) return;
+    const targets = [...pendingSaves];
+    pendingSaves.clear();
+    try {
+      await Promise.all(targets.map(target => {
+        switch (target) {
+          case 'project': return api.updateProject(projectId, { description: videoDescription, userPrompt, outputFormat });
+          case 'glossary': return api.saveGlossary(projectId, glossary);
+          case 'transcript': return recordingId && api.saveTranscript(projectId, recordingId, diarizedTranscript);
+          case 'captions': return recordingId && api.saveCaptions(projectId, recordingId, timecodedCaptions);
+          case 'speakers': return recordingId && api.saveSpeakers(projectId, recordingId, speakers);
+          case 'document': return api.saveDocument(projectId, outputFormat, { content: generatedContent, summary: videoSummary, recordingId: recordingId || null });
+        }
+      }));
+    } catch (e: any) {
+      targets.forEach(target => pendingSaves.add(target));
+      set(failure(e, 'Failed to save project.', () => get().saveProject()));
+    }
+  },
+
+  // Jobs keep running on the server after the tab closes; pick up any that are still in flight for this project.
+  resumeJobs: async () => {
+    const { projectId } = get();
+    const jobs = await api.listActiveJobs(projectId);
+    if (jobs.length === 0) return;
+    const isGenerating = jobs.some(job => job.type === 'guide');
+    const controller = new AbortController();
+    if (isGenerating) generationController = controller;
+    else processingController = controller;
+    set({ isGenerating, isProcessingVideo: !isGenerating, progress: 0 });
+    try {
+      await Promise.all(jobs.map(job => api.followJob(job.id, trackJob(set), controller.signal)));
+    } catch (e: any) {
+      if (!controller.signal.aborted) set(failure(e, 'A background job failed.'));
+    } finally {
+      generationController = processingController = null;
+      set({ isGenerating: false, isProcessingVideo: false, loadingMessage: '', progress: 0 });
+    }
+    // Finished jobs write their results to the project, so reloading picks them up.
+    if (get().projectId === projectId) await get().loadProject(projectId);
+  },
 
-  startProcessing: async (file, description, prompt, skipAudio) => {
+  deleteProject: async (id) => {
+    await api.deleteProject(id);
+    if (id === get().projectId) {
+      localStorage.removeItem(LAST_PROJECT_KEY);
+      get().resetState();
+    }
+  },
+
+  // A `transcript` imported from subtitles replaces AI transcription; captions are still generated.
+  startProcessing: async (file, description, prompt, glossary, skipAudio, chunked, transcript) => {
     get().resetState();
+    const controller = new AbortController();
+    processingController = controller;
     set({
       isProcessingVideo: true,
       videoFile: file,
@@ -125,93 +310,301 @@ export const useAppStore = create<AppState>((set, get) => ({
       videoMimeType: file.type,
       videoDescription: description,
       userPrompt: prompt,
+      glossary,
     });
-    const makeProgressUpdater = (start: number, end: number) => (p: number) => set({ progress: start + (p / 100) * (end - start) });
-
     try {
-      set({ loadingMessage: 'Reading video file...' });
-      const base64Data = await fileToBase64(file, makeProgressUpdater(0, 30));
-      set({ videoBase64: base64Data });
+      set({ loadingMessage: 'Uploading video...' });
+      const fields = { description, userPrompt: prompt, outputFormat: get().outputFormat };
+      const { projectId } = await uploadRecording(file, fields, (p) => set({ progress: p * 0.3 }), set, controller.signal);
+      localStorage.setItem(LAST_PROJECT_KEY, projectId);
+      if (glossary.length > 0) await api.saveGlossary(projectId, glossary);
+      if (transcript) set({ diarizedTranscript: transcript });
+      await get().processRecording(skipAudio || !!transcript, chunked);
+    } catch (e: any) {
+      if (!controller.signal.aborted) {
+        set({ ...failure(e, 'Failed to upload the recording.', () => get().startProcessing(file, description, prompt, glossary, skipAudio, chunked, transcript)), isProcessingVideo: false, loadingMessage: '', progress: 0 });
+      }
+    }
+    if (controller.signal.aborted) {
+      // A cancelled upload is usually restarted with different context, so the new project and media are removed and the app starts over.
+      const { projectId, mediaId } = get();
+      processingController = null;
+      deleteLocalSession(localSessionId).catch(() => {});
+      get().resetState();
+      localStorage.removeItem(LAST_PROJECT_KEY);
+      await discardRecording({ projectId, mediaId });
+    }
+  },
 
-      const apiParams = { videoBase64: base64Data, mimeType: file.type, description, userPrompt: prompt };
+  // Runs transcription and captioning for the uploaded recording; retrying a failure starts here rather than uploading again.
+  processRecording: async (skipAudio, chunked) => {
+    const { mediaId, projectId, recordingId, videoDescription: description, userPrompt: prompt, glossary } = get();
+    // Started from `startProcessing` this shares its controller, so cancelling also discards the upload.
+    const controller = processingController ?? new AbortController();
+    processingController = controller;
+    set({ isProcessingVideo: true, error: '', retry: null, captioningFailed: false });
+    try {
+      // Leaving `chunked` unset lets the server decide from the recording's length.
+      const jobParams = { mediaId, description, userPrompt: prompt, glossary, projectId, recordingId, chunked: chunked || undefined };
 
       if (!skipAudio) {
-        set({ loadingMessage: 'Generating speaker diarization...' });
-        const transcribedText = await simulateProgress(api.transcribeVideo(apiParams), makeProgressUpdater(30, 65));
+        const transcribedText = await api.runJob<DiarizedSegment[]>('transcribe', jobParams, trackJob(set, 30, 65), controller.signal);
         set({ diarizedTranscript: transcribedText });
       }
 
-      set({ loadingMessage: 'Creating captions...' });
-      const captions = await simulateProgress(api.generateTimecodedCaptions(apiParams), makeProgressUpdater(skipAudio ? 30 : 65, 100));
+      const captions = await api.runJob<Caption[]>('captions', jobParams, trackJob(set, skipAudio ? 30 : 65, 100), controller.signal);
       if (captions?.length > 0) {
         set({ timecodedCaptions: captions });
       } else {
         set(state => ({ error: (state.error ? `${state.error}\n` : '') + 'Captioning failed.', timecodedCaptions: [], captioningFailed: true }));
       }
     } catch (e: any) {
-      set({ error: e.message || 'An error occurred during processing.' });
+      if (!controller.signal.aborted) set(failure(e, 'An error occurred during processing.', () => get().processRecording(skipAudio, chunked)));
+    } finally {
+      if (processingController === controller) processingController = null;
+      set({ isProcessingVideo: false, loadingMessage: '', progress: 0 });
+    }
+  },
+
+  cancelProcessing: () => processingController?.abort(),
+
+  // Restores an exported session ZIP without calling the model. The video is uploaded again so the session becomes a
+  // project that autosaves and can generate or export like one that was processed here.
+  importSession: async (file) => {
+    get().resetState();
+    const controller = new AbortController();
+    processingController = controller;
+    set({ isProcessingVideo: true, loadingMessage: 'Reading session...' });
+    try {
+      const session = await readSessionZip(file);
+      const { videoFile, description, prompt, glossary = [], format, diarizedTranscript, timecodedCaptions, speakers = [], content } = session;
+      set({
+        videoFile,
+        videoUrl: videoFile ? URL.createObjectURL(videoFile) : '',
+        videoMimeType: videoFile?.type || '',
+        videoDescription: description,
+        userPrompt: prompt,
+        glossary,
+        outputFormat: format,
+        diarizedTranscript,
+        timecodedCaptions,
+        speakers,
+        generatedContent: content,
+      });
+      if (!videoFile) {
+        set({ error: 'This session has no video, so it was restored for reading only. Export it again with the video to keep editing.' });
+        return;
+      }
+      set({ loadingMessage: 'Uploading video...' });
+      const fields = { description, userPrompt: prompt, outputFormat: format };
+      const { projectId, recordingId } = await uploadRecording(videoFile, fields, (p) => set({ progress: p * 90 }), set, controller.signal);
+      set({ loadingMessage: 'Saving project...', progress: 90 });
+      await Promise.all([
+        api.saveTranscript(projectId, recordingId, diarizedTranscript),
+        api.saveCaptions(projectId, recordingId, timecodedCaptions),
+        speakers.length > 0 && api.saveSpeakers(projectId, recordingId, speakers),
+        glossary.length > 0 && api.saveGlossary(projectId, glossary),
+        content && api.saveDocument(projectId, format, { content, recordingId }),
+      ]);
+      localStorage.setItem(LAST_PROJECT_KEY, projectId);
+    } catch (e: any) {
+      if (!controller.signal.aborted) set(failure(e, 'Failed to import the session.', () => get().importSession(file)));
     } finally {
+      if (processingController === controller) processingController = null;
       set({ isProcessingVideo: false, loadingMessage: '', progress: 0 });
     }
+    if (controller.signal.aborted) {
+      const { projectId, mediaId } = get();
+      get().resetState();
+      await discardRecording({ projectId, mediaId });
+    }
+  },
+
+  // Brings back a session saved in this browser. Edits the server may not have received are saved to the project again.
+  restoreLocalSession: async (id) => {
+    try {
+      const [session, video] = await Promise.all([getLocalSession(id), getLocalVideo(id)]);
+      if (!session) throw new Error('This session is no longer stored in the browser.');
+      get().resetState();
+      localSessionId = id;
+      savedVideo = { sessionId: id, file: video };
+      isHydrating = true;
+      set({
+        projectId: session.projectId,
+        recordingId: session.recordingId,
+        mediaId: session.mediaId,
+        videoFile: video,
+        videoUrl: video ? URL.createObjectURL(video) : session.mediaId ? api.mediaContentUrl(session.mediaId) : '',
+        videoMimeType: session.videoMimeType,
+        diarizedTranscript: session.diarizedTranscript,
+        timecodedCaptions: session.timecodedCaptions,
+        speakers: session.speakers ?? [],
+        glossary: session.glossary ?? [],
+        videoDescription: session.videoDescription,
+        userPrompt: session.userPrompt,
+        outputFormat: session.outputFormat,
+        generatedContent: session.generatedContent,
+        videoSummary: session.videoSummary,
+      });
+      isHydrating = false;
+      if (session.projectId) {
+        localStorage.setItem(LAST_PROJECT_KEY, session.projectId);
+        (['project', 'glossary', 'transcript', 'captions', 'speakers', 'document'] as const).forEach(target => pendingSaves.add(target));
+        await get().saveProject();
+      }
+    } catch (e: any) {
+      isHydrating = false;
+      set(failure(e, 'Failed to restore the session.'));
+    }
+  },
+
+  retryFailedAction: async () => {
+    const { retry } = get();
+    set({ error: '', retry: null });
+    await retry?.();
   },
 
   retryCaptions: async () => {
-    const { videoBase64, videoMimeType, videoDescription, userPrompt } = get();
-    if (!videoBase64) return;
+    const { mediaId, projectId, recordingId, videoDescription, userPrompt, glossary } = get();
+    if (!mediaId) return;
 
+    const controller = new AbortController();
+    processingController = controller;
     set({ isRetryingCaptions: true, error: get().error.replace('Captioning failed.', '').trim(), captioningFailed: false, progress: 0 });
     try {
-      const captions = await simulateProgress(api.generateTimecodedCaptions({ videoBase64, mimeType: videoMimeType, description: videoDescription, userPrompt: userPrompt }), (p) => set({ progress: p }));
+      const captions = await api.runJob<Caption[]>('captions', { mediaId, description: videoDescription, userPrompt, glossary, projectId, recordingId }, (job) => set({ progress: job.progress }), controller.signal);
       if (captions?.length > 0) {
         set({ timecodedCaptions: captions });
       } else {
         set(state => ({ error: (state.error ? `${state.error}\n` : '') + 'Captioning failed.', captioningFailed: true }));
       }
     } catch (e: any) {
-      set(state => ({ error: (state.error ? `${state.error}\n` : '') + (e.message || 'Failed to retry.'), captioningFailed: true }));
+      // A cancelled retry can be started again, so only a real failure is reported.
+      if (controller.signal.aborted) set({ captioningFailed: true });
+      else set(state => ({ error: (state.error ? `${state.error}\n` : '') + errorMessage(e, 'Failed to retry.'), captioningFailed: true }));
     } finally {
+      if (processingController === controller) processingController = null;
       set({ isRetryingCaptions: false, progress: 0 });
     }
   },
 
   generateSummary: async () => {
-    const { videoBase64, videoMimeType, diarizedTranscript, videoDescription } = get();
-    if (!videoBase64) return set({ error: 'A video must be processed first.' });
-    set({ isSummarizing: true, error: '', videoSummary: '' });
+    const { mediaId, diarizedTranscript, videoDescription } = get();
+    if (!mediaId) return set({ error: 'A video must be processed first.' });
+    const controller = new AbortController();
+    generationController = controller;
+    set({ isSummarizing: true, error: '', retry: null, videoSummary: '' });
     try {
       const transcriptString = diarizedTranscript.map(s => `${s.speaker}: ${s.text}`).join('\n');
-      const summary = await api.generateSummary({ videoBase64, mimeType: videoMimeType, transcript: transcriptString, description: videoDescription });
+      const summary = await api.generateSummary({ mediaId, transcript: transcriptString, description: videoDescription }, controller.signal);
       set({ videoSummary: summary });
     } catch (e: any) {
-      set({ error: e.message || 'Failed to generate summary.' });
+      if (!controller.signal.aborted) set(failure(e, 'Failed to generate summary.', () => get().generateSummary()));
     } finally {
+      if (generationController === controller) generationController = null;
       set({ isSummarizing: false });
     }
   },
 
   generateContent: async () => {
-    const { videoBase64, videoMimeType, diarizedTranscript, videoDescription, userPrompt, outputFormat } = get();
-    if (!videoBase64) return set({ error: 'Missing video.' });
-    set({ isGenerating: true, loadingMessage: 'Generating content...', error: '', generatedContent: '', progress: 0 });
+    const { mediaId, diarizedTranscript, speakers, glossary, videoDescription, userPrompt, outputFormat } = get();
+    if (!mediaId) return set({ error: 'Missing video.' });
+    generationController = new AbortController();
+    set({ isGenerating: true, loadingMessage: 'Generating content...', error: '', retry: null, generatedContent: '', progress: 0 });
     try {
-      const transcriptString = diarizedTranscript.length > 0 
-        ? diarizedTranscript.map(s => `${s.speaker}: ${s.text}`).join('\n') 
-        : 'No speech detected.';
-      const content = await simulateProgress(api.generateGuide({ videoBase64, mimeType: videoMimeType, transcript: transcriptString, description: videoDescription, prompt: userPrompt, format: outputFormat }), (p) => set({ progress: p }));
-      set({ generatedContent: content });
+      await api.streamGuide(
+        { mediaId, transcript: transcriptText(diarizedTranscript), description: videoDescription, prompt: userPrompt, format: outputFormat, speakers: speakersForPrompt(diarizedTranscript, speakers), glossary },
+        (text) => set(state => ({ generatedContent: state.generatedContent + text })),
+        generationController.signal,
+      );
     } catch (e: any) {
-      set({ error: e.message || 'Failed to generate content.' });
+      // Stopping early keeps whatever text has already arrived.
+      if (e.name !== 'AbortError') set(failure(e, 'Failed to generate content.', () => get().generateContent()));
     } finally {
+      generationController = null;
       set({ isGenerating: false, loadingMessage: '', progress: 0 });
     }
   },
 
+  stopGenerating: () => generationController?.abort(),
+
   rewriteText: async (textToRewrite, prompt) => {
     try {
       return await api.rewriteText({ textToRewrite, prompt });
     } catch (e: any) {
-      set({ error: e.message || 'Failed to rewrite text.' });
+      set({ error: errorMessage(e, 'Failed to rewrite text.') });
       return null;
     }
   },
-}));
\ No newline at end of file
+}));
+
+// Persist edits to the server shortly after they happen. Loading a project replaces every field at once and is not a user edit.
+// Loading, processing or clearing replaces the transcript outside of undo, so earlier steps no longer apply.
+useAppStore.subscribe((state, prev) => {
+  if (isRecordingEdit || (state.diarizedTranscript === prev.diarizedTranscript && state.timecodedCaptions === prev.timecodedCaptions && state.speakers === prev.speakers)) return;
+  if (state.undoStack.length > 0 || state.redoStack.length > 0) useAppStore.setState({ undoStack: [], redoStack: [] });
+});
+
+useAppStore.subscribe((state, prev) => {
+  if (isHydrating || !state.projectId || state.projectId !== prev.projectId) return;
+  if (state.videoDescription !== prev.videoDescription || state.userPrompt !== prev.userPrompt || state.outputFormat !== prev.outputFormat) pendingSaves.add('project');
+  if (state.diarizedTranscript !== prev.diarizedTranscript) pendingSaves.add('transcript');
+  if (state.timecodedCaptions !== prev.timecodedCaptions) pendingSaves.add('captions');
+  if (state.speakers !== prev.speakers) pendingSaves.add('speakers');
+  if (state.glossary !== prev.glossary) pendingSaves.add('glossary');
+  if (!state.isGenerating && (state.generatedContent !== prev.generatedContent || state.videoSummary !== prev.videoSummary || prev.isGenerating)) pendingSaves.add('document');
+  if (pendingSaves.size === 0) return;
+  clearTimeout(autosaveTimer);
+  autosaveTimer = setTimeout(() => useAppStore.getState().saveProject(), AUTOSAVE_DELAY_MS);
+});
+
+// Everything up to the first await runs synchronously, so callers can flush pending edits right before switching sessions.
+async function saveLocally() {
+  clearTimeout(localSaveTimer);
+  localSaveTimer = undefined;
+  const state = useAppStore.getState();
+  if (!state.videoFile && !state.mediaId && state.diarizedTranscript.length === 0 && !state.generatedContent) return;
+  const sessionId = localSessionId;
+  const session: LocalSession = {
+    id: sessionId,
+    name: state.videoDescription || state.videoFile?.name || 'Untitled session',
+    updatedAt: Date.now(),
+    projectId: state.projectId,
+    recordingId: state.recordingId,
+    mediaId: state.mediaId,
+    videoMimeType: state.videoMimeType,
+    hasVideo: !!state.videoFile,
+    diarizedTranscript: state.diarizedTranscript,
+    timecodedCaptions: state.timecodedCaptions,
+    speakers: state.speakers,
+    glossary: state.glossary,
+    videoDescription: state.videoDescription,
+    userPrompt: state.userPrompt,
+    outputFormat: state.outputFormat,
+    generatedContent: state.generatedContent,
+    videoSummary: state.videoSummary,
+  };
+  // The recording is only written when it changes; an unchanged video is left out of the transaction.
+  const videoChanged = savedVideo?.sessionId !== sessionId || savedVideo.file !== state.videoFile;
+  try {
+    await saveLocalSession(session, videoChanged ? state.videoFile : undefined);
+    savedVideo = { sessionId, file: state.videoFile };
+  } catch (e) {
+    console.warn('Could not save the session in this browser:', e);
+  }
+}
+
+// Mirror the editor into IndexedDB on every change, independently of the server autosave, so it also covers work
+// that never reached the server.
+useAppStore.subscribe((state, prev) => {
+  if (isHydrating) return;
+  const fields = ['projectId', 'recordingId', 'mediaId', 'videoFile', 'diarizedTranscript', 'timecodedCaptions', 'speakers', 'glossary', 'videoDescription', 'userPrompt', 'outputFormat', 'generatedContent', 'videoSummary'] as const;
+  if (!fields.some(field => state[field] !== prev[field])) return;
+  clearTimeout(localSaveTimer);
+  localSaveTimer = setTimeout(saveLocally, AUTOSAVE_DELAY_MS);
+});
+
+export const restoreLastProject = () => {
+  const lastProjectId = localStorage.getItem(LAST_PROJECT_KEY);
+  if (lastProjectId) useAppStore.getState().loadProject(lastProjectId);
+};
@@ -0,0 +1,40 @@
+import { DiarizedSegment, ProjectFields } from '../types';
+import * as api from '../api';
+import { getMediaDuration } from '../utils/utils';
+
+export interface UploadedRecording {
+  mediaId: string;
+  projectId: string;
+  recordingId: string;
+}
+
+// Uploads a recording and files it under a new project. `onCreated` sees each ID as soon as it exists,
+// so a caller that is cancelled halfway knows what to clean up.
+export const uploadRecording = async (
+  file: File,
+  fields: Omit<ProjectFields, 'name'>,
+  onProgress: (fraction: number) => void,
+  onCreated: (ids: Partial<UploadedRecording>) => void,
+  signal?: AbortSignal,
+): Promise<UploadedRecording> => {
+  const duration = await getMediaDuration(file);
+  const { mediaId } = await api.uploadMedia(file, duration, onProgress, signal);
+  onCreated({ mediaId });
+  signal?.throwIfAborted();
+  const { id: projectId } = await api.createProject({ name: file.name, ...fields });
+  onCreated({ projectId });
+  const { id: recordingId } = await api.addRecording(projectId, { mediaId, fileName: file.name, mimeType: file.type, size: file.size });
+  onCreated({ recordingId });
+  return { mediaId, projectId, recordingId };
+};
+
+// Removes what `uploadRecording` created; failures are ignored since there is nothing left to show.
+export const discardRecording = async ({ projectId, mediaId }: Partial<UploadedRecording>) => {
+  if (projectId) await api.deleteProject(projectId).catch(() => {});
+  if (mediaId) await api.deleteMedia(mediaId).catch(() => {});
+};
+
+// The guide prompt takes the transcript as plain text.
+export const transcriptText = (transcript: DiarizedSegment[]) => transcript.length > 0
+  ? transcript.map(s => `${s.speaker}: ${s.text}`).join('\n')
+  : 'No speech detected.';
@@ -1,12 +1,20 @@
-export interface Caption {
-  startTime: string; // e.g., "00:01:23.456"
-  endTime: string;
-  text: string;
-}
-
-export interface DiarizedSegment {
-  speaker: string;
-  startTime: string; // e.g., "00:01:23.456"
-  endTime: string;
-  text: string;
-}
+// Data exchanged with the server is typed in the shared workspace so both sides stay in step.
+export type {
+  Caption,
+  DiarizedSegment,
+  TranscriptWord,
+  GlossaryTerm,
+  Speaker,
+  OutputFormat,
+  ProjectFields,
+  ProjectSummary,
+  Recording,
+  GeneratedDocument,
+  Project,
+  JobType,
+  JobStatus,
+  Job,
+  FrameFormat,
+  FrameOptions,
+  Waveform,
+} from '@screenguide/shared';
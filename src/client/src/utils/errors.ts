@@ -0,0 +1,22 @@
+import { ApiRequestError, RequestErrorCode } from '../api';
+
+// What the user can do about each failure. Codes without an entry show the server's own message.
+const MESSAGES: Partial<Record<RequestErrorCode, string>> = {
+    network_error: 'Could not reach the ScreenGuide server. Check that it is running and try again.',
+    unsupported_media_type: 'This file type is not supported. Upload a video or audio recording such as MP4, WebM or MOV.',
+    payload_too_large: 'The recording is too large to upload. Trim it or record a shorter clip.',
+    safety_blocked: "The AI model declined to answer because of its safety filters. Rephrase the description or instructions and try again.",
+    rate_limited: 'The AI provider is rate limiting requests or the quota is used up.',
+    malformed_output: 'The AI model returned a response that could not be read. Trying again usually fixes this.',
+    provider_unavailable: 'The AI provider is unavailable. Check the server API key and network connection, then try again.',
+    model_timeout: 'The AI model took too long to respond. Try again, or turn on chunked processing for long recordings.',
+};
+
+export const errorMessage = (error: any, fallback: string): string => {
+    if (!(error instanceof ApiRequestError)) return error?.message || fallback;
+    const message = MESSAGES[error.code] || error.message || fallback;
+    if (error.code !== 'rate_limited') return message;
+    return `${message} Wait ${error.retryAfter ? `${Math.ceil(error.retryAfter)} seconds` : 'a minute'} before trying again.`;
+};
+
+export const isRetryable = (error: any): boolean => error instanceof ApiRequestError && error.retryable;
@@ -0,0 +1,63 @@
+import { GlossaryTerm } from '../types';
+
+// The glossary is edited as text, one term per line: `Preferred spelling: variant, variant`.
+
+export const parseGlossary = (text: string): GlossaryTerm[] => text.split('\n').flatMap(line => {
+  const [term, variants = ''] = line.split(/:\s(.*)/s);
+  if (!term.trim()) return [];
+  return [{ term: term.trim(), variants: variants.split(',').map(v => v.trim()).filter(Boolean) }];
+});
+
+export const formatGlossary = (glossary: GlossaryTerm[]) =>
+  glossary.map(({ term, variants }) => variants.length > 0 ? `${term}: ${variants.join(', ')}` : term).join('\n');
+
+export interface GlossaryIssue {
+  start: number;
+  end: number;
+  found: string;
+  replacement: string;
+}
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+// Terms such as CLI flags contain `-`, so word boundaries are spelled out rather than using `\b`.
+const exactly = (text: string) => new RegExp(`(?<![\\w-])${escape(text)}(?![\\w-])`, 'gi');
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Single-word terms also catch near misses, one edit for shorter words and two from eight letters; shorter terms would
+// match too many ordinary words.
+const MIN_FUZZY_LENGTH = 5;
+const isNearMiss = (word: string, term: string) => {
+  if (term.length < MIN_FUZZY_LENGTH || /\s/.test(term) || word.toLowerCase() === term.toLowerCase()) return false;
+  return Math.abs(word.length - term.length) <= 2 && editDistance(word.toLowerCase(), term.toLowerCase()) <= (term.length >= 8 ? 2 : 1);
+};
+
+/** Listed variants, the term in the wrong case and near misses of one-word terms, in order and without overlaps. */
+export const findGlossaryIssues = (text: string, glossary: GlossaryTerm[]): GlossaryIssue[] => {
+  const issues: GlossaryIssue[] = [];
+  const terms = new Set(glossary.map(({ term }) => term.toLowerCase()));
+  for (const { term, variants } of glossary) {
+    for (const spelling of [term, ...variants]) {
+      for (const match of text.matchAll(exactly(spelling))) {
+        if (match[0] !== term) issues.push({ start: match.index!, end: match.index! + match[0].length, found: match[0], replacement: term });
+      }
+    }
+    for (const match of text.matchAll(/[\w-]+/g)) {
+      if (!terms.has(match[0].toLowerCase()) && isNearMiss(match[0], term)) issues.push({ start: match.index!, end: match.index! + match[0].length, found: match[0], replacement: term });
+    }
+  }
+  issues.sort((a, b) => a.start - b.start || b.end - a.end);
+  return issues.reduce<GlossaryIssue[]>((kept, issue) => kept.length === 0 || issue.start >= kept[kept.length - 1].end ? [...kept, issue] : kept, []);
+};
+
+/** Applies `issues` from the end so earlier offsets stay valid. */
+export const applyGlossaryFixes = (text: string, issues: GlossaryIssue[]) =>
+  [...issues].sort((a, b) => b.start - a.start).reduce((result, { start, end, replacement }) => result.slice(0, start) + replacement + result.slice(end), text);
@@ -0,0 +1,107 @@
+import { DiarizedSegment, Caption } from '../types';
+import { Timecode, byStartTime } from '@screenguide/shared/timecode';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+/** A cue read from a subtitle file; `speaker` is empty when the file does not name one. */
+export type ImportedCue = DiarizedSegment;
+
+const DEFAULT_SPEAKER = 'Speaker 1';
+// ASS styles written for captions or as the catch-all do not name a speaker.
+const NON_SPEAKER_STYLES = new Set(['default', 'narrator']);
+
+// SRT `HH:MM:SS,mmm`, WebVTT `MM:SS.mmm` and ASS `H:MM:SS.cc` are all read by `Timecode`; cues with a broken timing are skipped.
+const cue = (speaker: string, start: string, end: string, text: string): ImportedCue[] => {
+    const startTime = Timecode.tryParse(start);
+    const endTime = Timecode.tryParse(end);
+    return text && startTime && endTime ? [{ speaker, startTime: startTime.toString(), endTime: endTime.toString(), text }] : [];
+};
+
+const decodeEntities = (text: string) => text
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ').replace(/&lrm;|&rlm;/g, '').replace(/&amp;/g, '&');
+
+const cleanText = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean).join('\n');
+
+const blocks = (text: string) => text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/).map(block => block.trim()).filter(Boolean);
+
+const TIMING = /^\s*([\d:.,]+)\s+-->\s+([\d:.,]+)/;
+
+export const parseSrt = (text: string): ImportedCue[] => blocks(text).flatMap(block => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING.test(line));
+    if (timingIndex < 0) return [];
+    const [, start, end] = lines[timingIndex].match(TIMING)!;
+    // SRT allows basic HTML-like formatting tags, which the editor does not keep.
+    const body = cleanText(lines.slice(timingIndex + 1).join('\n').replace(/<\/?[^>]+>/g, ''));
+    return cue('', start, end, body);
+});
+
+// Voice spans look like `<v Speaker 1>` or `<v.loud Speaker 1>`; the first one in a cue names its speaker.
+export const parseVtt = (text: string): ImportedCue[] => blocks(text).flatMap(block => {
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(block)) return [];
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING.test(line));
+    if (timingIndex < 0) return [];
+    const [, start, end] = lines[timingIndex].match(TIMING)!;
+    const raw = lines.slice(timingIndex + 1).join('\n');
+    const voice = raw.match(/<v(?:\.[^\s>]*)?\s+([^>]+)>/);
+    const body = cleanText(decodeEntities(raw.replace(/<[^>]+>/g, '')));
+    return cue(voice ? decodeEntities(voice[1].trim()) : '', start, end, body);
+});
+
+// Reads `Dialogue:` lines using the `[Events]` format line; the text field is last and may itself contain commas.
+export const parseAss = (text: string): ImportedCue[] => {
+    const lines = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+    let format = ['layer', 'start', 'end', 'style', 'name', 'marginl', 'marginr', 'marginv', 'effect', 'text'];
+    let inEvents = false;
+    const cues: ImportedCue[] = [];
+    for (const line of lines) {
+        const section = line.trim().match(/^\[(.+)\]$/);
+        if (section) {
+            inEvents = section[1].toLowerCase() === 'events';
+            continue;
+        }
+        if (!inEvents) continue;
+        const [, key, value] = line.match(/^\s*([^:]+):\s*(.*)$/) || [];
+        if (key?.toLowerCase() === 'format') {
+            format = value.split(',').map(field => field.trim().toLowerCase());
+            continue;
+        }
+        if (key?.toLowerCase() !== 'dialogue') continue;
+        const parts = value.split(',');
+        const fields = Object.fromEntries(format.map((name, i) => [name, i === format.length - 1 ? parts.slice(i).join(',') : parts[i] || '']));
+        const body = cleanText((fields.text || '').replace(/\{[^}]*\}/g, '').replace(/\\[Nn]/g, '\n').replace(/\\h/g, ' '));
+        const style = (fields.style || '').trim();
+        const speaker = (fields.name || '').trim() || (NON_SPEAKER_STYLES.has(style.toLowerCase()) ? '' : style);
+        cues.push(...cue(speaker, fields.start, fields.end, body));
+    }
+    return cues;
+};
+
+// Goes by the file extension, then by the content for files with an unexpected name.
+export const detectSubtitleFormat = (fileName: string, text: string): SubtitleFormat | null => {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    if (extension === 'srt' || extension === 'vtt') return extension;
+    if (extension === 'ass' || extension === 'ssa') return 'ass';
+    if (/^\uFEFF?WEBVTT/.test(text)) return 'vtt';
+    if (/^\uFEFF?\[Script Info\]/im.test(text)) return 'ass';
+    if (TIMING.test(text.split(/\r?\n/).find(line => line.includes('-->')) || '')) return 'srt';
+    return null;
+};
+
+const PARSERS: Record<SubtitleFormat, (text: string) => ImportedCue[]> = { srt: parseSrt, vtt: parseVtt, ass: parseAss };
+
+export const importSubtitles = async (file: File): Promise<ImportedCue[]> => {
+    const text = await file.text();
+    const format = detectSubtitleFormat(file.name, text);
+    if (!format) throw new Error(`${file.name} is not an SRT, WebVTT or ASS subtitle file.`);
+    const cues = PARSERS[format](text).sort(byStartTime);
+    if (cues.length === 0) throw new Error(`No subtitles found in ${file.name}.`);
+    return cues;
+};
+
+export const cuesToTranscript = (cues: ImportedCue[]): DiarizedSegment[] =>
+    cues.map(({ speaker, startTime, endTime, text }) => ({ speaker: speaker || DEFAULT_SPEAKER, startTime, endTime, text }));
+
+export const cuesToCaptions = (cues: ImportedCue[]): Caption[] =>
+    cues.map(({ startTime, endTime, text }) => ({ startTime, endTime, text }));
@@ -0,0 +1,96 @@
+import { Caption, DiarizedSegment, GlossaryTerm, OutputFormat, Speaker } from '../types';
+
+// Editor state mirrored into IndexedDB so a refresh or crash does not lose work, including edits the server has not
+// saved yet and the recording itself. Videos live in their own store so text edits do not rewrite the Blob.
+
+export interface LocalSession {
+  id: string;
+  name: string;
+  updatedAt: number;
+  projectId: string;
+  recordingId: string;
+  mediaId: string;
+  videoMimeType: string;
+  hasVideo: boolean;
+  diarizedTranscript: DiarizedSegment[];
+  timecodedCaptions: Caption[];
+  /** Missing from sessions saved before speakers could be named. */
+  speakers?: Speaker[];
+  glossary?: GlossaryTerm[];
+  videoDescription: string;
+  userPrompt: string;
+  outputFormat: OutputFormat;
+  generatedContent: string;
+  videoSummary: string;
+}
+
+const DB_NAME = 'screenguide';
+const SESSIONS = 'sessions';
+const VIDEOS = 'videos';
+/** Older sessions beyond this count are dropped on save. */
+export const MAX_LOCAL_SESSIONS = 5;
+
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const completion = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+let db: Promise<IDBDatabase> | null = null;
+
+const openDb = () => db ??= new Promise((resolve, reject) => {
+  const open = indexedDB.open(DB_NAME, 1);
+  open.onupgradeneeded = () => {
+    open.result.createObjectStore(SESSIONS, { keyPath: 'id' });
+    open.result.createObjectStore(VIDEOS);
+  };
+  open.onsuccess = () => resolve(open.result);
+  open.onerror = () => {
+    db = null;
+    reject(open.error);
+  };
+});
+
+// Most recent first.
+export const listLocalSessions = async (): Promise<LocalSession[]> => {
+  const sessions = await request<LocalSession[]>((await openDb()).transaction(SESSIONS).objectStore(SESSIONS).getAll());
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getLocalSession = async (id: string): Promise<LocalSession | undefined> =>
+  request<LocalSession | undefined>((await openDb()).transaction(SESSIONS).objectStore(SESSIONS).get(id));
+
+export const getLocalVideo = async (id: string): Promise<File | null> =>
+  (await request<File | undefined>((await openDb()).transaction(VIDEOS).objectStore(VIDEOS).get(id))) || null;
+
+export const deleteLocalSession = async (id: string): Promise<void> => {
+  const tx = (await openDb()).transaction([SESSIONS, VIDEOS], 'readwrite');
+  tx.objectStore(SESSIONS).delete(id);
+  tx.objectStore(VIDEOS).delete(id);
+  await completion(tx);
+};
+
+/**
+ * Stores `session`; `video` replaces the stored recording, `null` removes it and `undefined` leaves it as it is.
+ * Other sessions for the same project are replaced, and only the newest `MAX_LOCAL_SESSIONS` are kept.
+ */
+export const saveLocalSession = async (session: LocalSession, video?: File | null): Promise<void> => {
+  const stale = (await listLocalSessions())
+    .filter(s => s.id !== session.id)
+    .filter((s, index) => (session.projectId && s.projectId === session.projectId) || index >= MAX_LOCAL_SESSIONS - 1)
+    .map(s => s.id);
+  const tx = (await openDb()).transaction([SESSIONS, VIDEOS], 'readwrite');
+  tx.objectStore(SESSIONS).put(session);
+  if (video) tx.objectStore(VIDEOS).put(video, session.id);
+  else if (video === null) tx.objectStore(VIDEOS).delete(session.id);
+  stale.forEach(id => {
+    tx.objectStore(SESSIONS).delete(id);
+    tx.objectStore(VIDEOS).delete(id);
+  });
+  await completion(tx);
+};
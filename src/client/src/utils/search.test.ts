@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { searchPattern, findMatches, replaceMatches } from './search';
+
+const pattern = (query: string, regex = false, matchCase = false) => searchPattern({ query, regex, matchCase })!;
+
+describe('searchPattern', () => {
+  it('matches literal queries as written, ignoring case unless asked', () => {
+    expect(findMatches('Cost: $5 (approx.) or $5.', pattern('$5.'))).toEqual([{ start: 22, end: 25 }]);
+    expect(findMatches('Save, save, SAVE', pattern('save'))).toHaveLength(3);
+    expect(findMatches('Save, save, SAVE', pattern('save', false, true))).toEqual([{ start: 6, end: 10 }]);
+  });
+
+  it('returns null for an empty query and throws for an invalid regex', () => {
+    expect(searchPattern({ query: '', regex: true, matchCase: false })).toBeNull();
+    expect(() => pattern('(', true)).toThrow(SyntaxError);
+  });
+
+  it('skips empty matches', () => {
+    expect(findMatches('baaac', pattern('a*', true))).toEqual([{ start: 1, end: 4 }]);
+  });
+});
+
+describe('replaceMatches', () => {
+  it('expands $n, $& and $$ in regex replacements', () => {
+    expect(replaceMatches('Click OK, then Cancel', pattern('(OK|Cancel)', true), '"$1"', true)).toBe('Click "OK", then "Cancel"');
+    expect(replaceMatches('John Smith', pattern('(\\w+) (\\w+)', true), '$2, $1', true)).toBe('Smith, John');
+    expect(replaceMatches('v2', pattern('\\d', true), '[$&] costs $$1', true)).toBe('v[2] costs $1');
+  });
+
+  it('reads two-digit group numbers and leaves unknown groups as written', () => {
+    const tenGroups = pattern('(a)(b)(c)(d)(e)(f)(g)(h)(i)(j)', true);
+    expect(replaceMatches('abcdefghij', tenGroups, '$10$1', true)).toBe('ja');
+    expect(replaceMatches('ab', pattern('(a)', true), '$2', true)).toBe('$2b');
+    expect(replaceMatches('ab', pattern('(x)?a', true), '[$1]', true)).toBe('[]b');
+  });
+
+  it('inserts literal replacements as written', () => {
+    expect(replaceMatches('price: 5', pattern('5'), '$1 & $&', false)).toBe('price: $1 & $&');
+  });
+
+  it('leaves empty matches alone', () => {
+    expect(replaceMatches('baaac', pattern('a*', true), '-', true)).toBe('b-c');
+  });
+});
@@ -0,0 +1,34 @@
+// Search and replace over the editor's text. Queries are literal unless `regex` is set; matching is always global.
+
+export interface SearchOptions {
+  query: string;
+  regex: boolean;
+  matchCase: boolean;
+}
+
+export interface TextMatch {
+  start: number;
+  end: number;
+}
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Throws a `SyntaxError` for an invalid regular expression; returns null for an empty query. */
+export const searchPattern = ({ query, regex, matchCase }: SearchOptions): RegExp | null =>
+  query ? new RegExp(regex ? query : escape(query), matchCase ? 'g' : 'gi') : null;
+
+// Empty matches, such as from `a*`, are skipped so they neither show as hits nor stall the scan.
+export const findMatches = (text: string, pattern: RegExp): TextMatch[] =>
+  [...text.matchAll(pattern)].filter(match => match[0].length > 0).map(match => ({ start: match.index!, end: match.index! + match[0].length }));
+
+/** With `regex`, the replacement may refer to groups as `$1`; otherwise it is inserted as written. */
+export const replaceMatches = (text: string, pattern: RegExp, replacement: string, regex: boolean) =>
+  text.replace(pattern, regex ? (match, ...args) => match ? expandReplacement(replacement, match, args) : match : match => match ? replacement : match);
+
+// `String.replace` would expand `$1` itself, but only when given a string, which would also replace empty matches.
+const expandReplacement = (replacement: string, match: string, args: unknown[]) => {
+  const groups = args.slice(0, args.findIndex(arg => typeof arg === 'number'));
+  // A group that did not take part in the match is empty; a number past the last group stays as written.
+  return replacement.replace(/\$(\$|&|\d{1,2})/g, (token, name) =>
+    name === '$' ? '$' : name === '&' ? match : Number(name) >= 1 && Number(name) <= groups.length ? String(groups[Number(name) - 1] ?? '') : token);
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { Timecode } from '@screenguide/shared/timecode';
+import { DiarizedSegment, Caption } from '../types';
+import { splitRow, mergeWithNext, insertAfter, removeRows, shiftRows } from './segments';
+
+const row = (startTime: string, endTime: string, text: string): DiarizedSegment => ({ speaker: 'Speaker 1', startTime, endTime, text });
+
+const timed: DiarizedSegment = {
+  ...row('00:00:10.000', '00:00:14.000', 'one two three four'),
+  words: [
+    { text: 'one', startTime: '00:00:10.000', endTime: '00:00:10.500', confidence: 0.9 },
+    { text: 'two', startTime: '00:00:11.000', endTime: '00:00:11.500' },
+    { text: 'three', startTime: '00:00:12.200', endTime: '00:00:12.800' },
+    { text: 'four', startTime: '00:00:13.000', endTime: '00:00:13.900' },
+  ],
+};
+
+describe('splitRow', () => {
+  it('interpolates the boundary from the cursor position', () => {
+    const rows = [row('00:00:00.000', '00:00:10.000', 'abcde fghij')];
+    expect(splitRow(rows, 0, 5)).toEqual([row('00:00:00.000', '00:00:04.545', 'abcde'), row('00:00:04.545', '00:00:10.000', 'fghij')]);
+  });
+
+  it('splits at the playhead when it falls inside the row', () => {
+    const rows = [row('00:00:00.000', '00:00:10.000', 'abcde fghij')];
+    expect(splitRow(rows, 0, 5, Timecode.parse('00:00:07.250')).map(r => r.endTime)).toEqual(['00:00:07.250', '00:00:10.000']);
+    expect(splitRow(rows, 0, 5, Timecode.parse('00:00:12.000'))[0].endTime).toBe('00:00:04.545');
+  });
+
+  it('splits timed words at the start of the next word and keeps them with their text', () => {
+    const [first, second] = splitRow([timed], 0, 'one two'.length);
+    expect(first).toMatchObject({ text: 'one two', startTime: '00:00:10.000', endTime: '00:00:12.200', words: timed.words!.slice(0, 2) });
+    expect(second).toMatchObject({ text: 'three four', startTime: '00:00:12.200', endTime: '00:00:14.000', words: timed.words!.slice(2) });
+  });
+
+  it('leaves the rows alone when either side would be empty', () => {
+    const rows = [row('00:00:00.000', '00:00:10.000', 'text')];
+    expect(splitRow(rows, 0, 0)).toBe(rows);
+    expect(splitRow(rows, 0, 4)).toBe(rows);
+  });
+});
+
+describe('mergeWithNext', () => {
+  it('joins the text and spans both rows, keeping the first speaker', () => {
+    const rows = [row('00:00:01.000', '00:00:02.000', 'Hello '), { ...row('00:00:02.500', '00:00:04.000', ' world'), speaker: 'Ana' }, row('00:00:05.000', '00:00:06.000', 'after')];
+    expect(mergeWithNext(rows, 0)).toEqual([row('00:00:01.000', '00:00:04.000', 'Hello world'), rows[2]]);
+  });
+
+  it('undoes a split of a row with timed words', () => {
+    expect(mergeWithNext(splitRow([timed], 0, 'one two'.length), 0)).toEqual([timed]);
+  });
+
+  it('drops the words when only one row has them', () => {
+    expect(mergeWithNext([timed, row('00:00:14.000', '00:00:15.000', 'five')], 0)[0]).not.toHaveProperty('words');
+  });
+
+  it('does nothing for the last row', () => {
+    const rows = [row('00:00:01.000', '00:00:02.000', 'only')];
+    expect(mergeWithNext(rows, 0)).toBe(rows);
+  });
+});
+
+describe('bulk edits', () => {
+  const captions: Caption[] = [
+    { startTime: '00:00:01.000', endTime: '00:00:02.000', text: 'a' },
+    { startTime: '00:00:05.000', endTime: '00:00:06.000', text: 'b' },
+  ];
+
+  it('inserts a row into the gap between its neighbours', () => {
+    expect(insertAfter(captions, 0, { startTime: '', endTime: '', text: 'new' })[1]).toEqual({ startTime: '00:00:02.000', endTime: '00:00:05.000', text: 'new' });
+    expect(insertAfter(captions, -1, { startTime: '', endTime: '', text: 'top' })[0]).toEqual({ startTime: '00:00:00.000', endTime: '00:00:01.000', text: 'top' });
+    expect(insertAfter(captions, 1, { startTime: '', endTime: '', text: 'end' })[2]).toEqual({ startTime: '00:00:06.000', endTime: '00:00:06.000', text: 'end' });
+  });
+
+  it('shifts only the selected rows and their words, stopping at zero', () => {
+    expect(shiftRows(captions, new Set([0]), -1.5)[0]).toEqual({ startTime: '00:00:00.000', endTime: '00:00:00.500', text: 'a' });
+    expect(shiftRows([timed], new Set([0]), -1.5)[0].words![0]).toEqual({ text: 'one', startTime: '00:00:08.500', endTime: '00:00:09.000', confidence: 0.9 });
+    expect(shiftRows(captions, new Set([1]), 2)).toEqual([captions[0], { ...captions[1], startTime: '00:00:07.000', endTime: '00:00:08.000' }]);
+  });
+
+  it('removes the selected rows', () => {
+    expect(removeRows(captions, new Set([0]))).toEqual([captions[1]]);
+  });
+
+  it('returns new arrays and leaves the input untouched', () => {
+    const before = JSON.stringify(captions);
+    splitRow(captions, 0, 0);
+    mergeWithNext(captions, 0);
+    shiftRows(captions, new Set([0]), 1);
+    expect(JSON.stringify(captions)).toBe(before);
+  });
+});
@@ -0,0 +1,75 @@
+import { TranscriptWord } from '../types';
+import { Timecode } from '@screenguide/shared/timecode';
+import { tokens } from './words';
+
+// Structural edits shared by the transcript and the captions. Each returns a new array and leaves the input untouched,
+// which is what lets the store keep earlier arrays as undo steps.
+
+type Timed = { startTime: string; endTime: string; text: string; words?: TranscriptWord[] };
+
+const range = (row: Timed) => ({ start: Timecode.parseOrZero(row.startTime), end: Timecode.parseOrZero(row.endTime) });
+
+// Only transcript rows have words, so the field is left out rather than set to undefined on captions.
+const withWords = <T extends Timed>(row: T, words: TranscriptWord[] | undefined): T => {
+  const { words: _, ...rest } = row;
+  return (words?.length ? { ...rest, words } : rest) as T;
+};
+
+/**
+ * Splits row `index` at character `offset` of its text. The boundary is `at` when it falls inside the row, for example
+ * the playhead; otherwise it is where the next word starts when words are timed, or interpolated from how far into the
+ * text the split is.
+ */
+export const splitRow = <T extends Timed>(rows: T[], index: number, offset: number, at?: Timecode): T[] => {
+  const row = rows[index];
+  const before = row.text.slice(0, offset).trim();
+  const after = row.text.slice(offset).trim();
+  if (!before || !after) return rows;
+  const { start, end } = range(row);
+  const wordCount = tokens(before).length;
+  const nextWord = row.words?.[wordCount] && Timecode.parseOrZero(row.words[wordCount].startTime);
+  const inside = (time?: Timecode) => !!time && time.compare(start) > 0 && time.compare(end) < 0;
+  const boundary = inside(at) ? at!
+    : inside(nextWord) ? nextWord!
+      : start.plus((end.seconds - start.seconds) * (offset / row.text.length));
+  return [
+    ...rows.slice(0, index),
+    withWords({ ...row, endTime: boundary.toString(), text: before }, row.words?.slice(0, wordCount)),
+    withWords({ ...row, startTime: boundary.toString(), text: after }, row.words?.slice(wordCount)),
+    ...rows.slice(index + 1),
+  ];
+};
+
+/** Joins row `index` with the one after it; the first row's other fields, such as the speaker, are kept. Words are kept when both rows have them. */
+export const mergeWithNext = <T extends Timed>(rows: T[], index: number): T[] => {
+  if (index < 0 || index >= rows.length - 1) return rows;
+  const [first, second] = [range(rows[index]), range(rows[index + 1])];
+  const start = first.start.compare(second.start) <= 0 ? first.start : second.start;
+  const end = first.end.compare(second.end) >= 0 ? first.end : second.end;
+  const [firstWords, secondWords] = [rows[index].words, rows[index + 1].words];
+  const merged = withWords(
+    { ...rows[index], startTime: start.toString(), endTime: end.toString(), text: `${rows[index].text.trim()} ${rows[index + 1].text.trim()}`.trim() },
+    firstWords && secondWords ? [...firstWords, ...secondWords] : undefined,
+  );
+  return [...rows.slice(0, index), merged, ...rows.slice(index + 2)];
+};
+
+/** Inserts `row` after `index` (-1 inserts at the top), timed to fill the gap between its neighbours. */
+export const insertAfter = <T extends Timed>(rows: T[], index: number, row: T): T[] => {
+  const previous = rows[index];
+  const next = rows[index + 1];
+  const start = previous ? range(previous).end : Timecode.ZERO;
+  const nextStart = next ? range(next).start : start;
+  const end = nextStart.compare(start) > 0 ? nextStart : start;
+  return [...rows.slice(0, index + 1), { ...row, startTime: start.toString(), endTime: end.toString() }, ...rows.slice(index + 1)];
+};
+
+export const removeRows = <T>(rows: T[], indices: Set<number>): T[] => rows.filter((_, i) => !indices.has(i));
+
+/** Moves the selected rows by `seconds`, which may be negative; times stop at zero. */
+export const shiftRows = <T extends Timed>(rows: T[], indices: Set<number>, seconds: number): T[] => rows.map((row, i) => {
+  if (!indices.has(i)) return row;
+  const { start, end } = range(row);
+  const words = row.words?.map(word => ({ ...word, startTime: Timecode.parseOrZero(word.startTime).plus(seconds).toString(), endTime: Timecode.parseOrZero(word.endTime).plus(seconds).toString() }));
+  return withWords({ ...row, startTime: start.plus(seconds).toString(), endTime: end.plus(seconds).toString() }, words);
+});
@@ -0,0 +1,172 @@
+import JSZip from 'jszip';
+import * as api from '../api';
+import { Caption, DiarizedSegment, FrameOptions, GlossaryTerm, OutputFormat, Speaker, TranscriptWord } from '../types';
+import { exportToAss, exportToJson, exportToSrt, exportToVtt } from './exportUtils';
+import { Timecode, findImagePlaceholders } from '@screenguide/shared/timecode';
+import { syncWords } from './words';
+
+const FRAME_EXTENSIONS: Record<FrameOptions['format'], string> = { png: 'png', jpeg: 'jpg', webp: 'webp' };
+
+export interface SessionData {
+  mediaId: string;
+  videoFile?: File | null;
+  description: string;
+  prompt: string;
+  glossary?: GlossaryTerm[];
+  format: OutputFormat;
+  diarizedTranscript: DiarizedSegment[];
+  timecodedCaptions: Caption[];
+  speakers?: Speaker[];
+  content: string;
+}
+
+// Replaces timed `[Image: ... at HH:MM:SS.sss]` placeholders with links to frames the server extracts into `imagesFolder`.
+export const embedFrames = async (content: string, mediaId: string, options: FrameOptions, imagesFolder: JSZip, linkPrefix: string): Promise<string> => {
+  const placeholders = findImagePlaceholders(content).filter(match => match.time);
+  if (placeholders.length === 0) return content;
+  const frames = await api.extractFrames(mediaId, placeholders.map(match => match.time!.toString()), options);
+  let updatedContent = content;
+  placeholders.forEach(({ placeholder, description }, index) => {
+    const blob = frames[index]?.blob;
+    if (!blob) return;
+    const imageName = `image-${index + 1}.${FRAME_EXTENSIONS[options.format]}`;
+    imagesFolder.file(imageName, blob);
+    updatedContent = updatedContent.replace(placeholder, `![${description}](${linkPrefix}${imageName})`);
+  });
+  return updatedContent;
+};
+
+export const outputFileName = (format: OutputFormat) => `${format}.${format === 'diagram' ? 'mmd' : 'md'}`;
+
+// Writes the session layout into `folder`: session.json, video/, output/, images/ and subtitles/.
+export const addSessionFiles = async (folder: JSZip, session: SessionData, frameOptions: FrameOptions) => {
+  const { mediaId, videoFile, description, prompt, glossary = [], format, diarizedTranscript, timecodedCaptions, speakers = [], content } = session;
+  folder.file("session.json", JSON.stringify({
+    userContext: { videoDescription: description, userPrompt: prompt, glossary },
+    rawData: { diarizedTranscript, timecodedCaptions, speakers },
+    generatedOutput: { format, content },
+    timestamp: new Date().toISOString(),
+  }, null, 2));
+
+  if (videoFile) folder.folder("video")!.file(videoFile.name, videoFile);
+
+  if (content) {
+    const output = format === 'diagram' ? content : await embedFrames(content, mediaId, frameOptions, folder.folder("images")!, '../images/');
+    folder.folder("output")!.file(outputFileName(format), output);
+  }
+
+  const subtitlesFolder = folder.folder("subtitles")!;
+  subtitlesFolder.file('transcript.ass', exportToAss(diarizedTranscript, timecodedCaptions, speakers));
+  subtitlesFolder.file('transcript.json', exportToJson(diarizedTranscript, timecodedCaptions));
+  subtitlesFolder.file('transcript.srt', exportToSrt(diarizedTranscript, timecodedCaptions));
+  subtitlesFolder.file('transcript.vtt', exportToVtt(diarizedTranscript, timecodedCaptions));
+};
+
+const VIDEO_TYPES: Record<string, string> = {
+  mp4: 'video/mp4', m4v: 'video/mp4', mov: 'video/quicktime', webm: 'video/webm', mkv: 'video/x-matroska',
+  mp3: 'audio/mpeg', m4a: 'audio/mp4', wav: 'audio/wav', ogg: 'audio/ogg',
+};
+const OUTPUT_FORMATS: OutputFormat[] = ['guide', 'article', 'slides', 'diagram'];
+
+const isTimedRows = (rows: unknown, withSpeaker: boolean) => Array.isArray(rows) && rows.every(row =>
+  typeof row?.startTime === 'string' && typeof row?.endTime === 'string' && typeof row?.text === 'string' && (!withSpeaker || typeof row?.speaker === 'string'));
+
+// Word timings are optional, so a list with a malformed entry is dropped rather than failing the import.
+const readWords = (words: unknown): TranscriptWord[] | undefined =>
+  Array.isArray(words) && words.length > 0 && words.every(word => typeof word?.text === 'string' && Timecode.tryParse(word?.startTime) && Timecode.tryParse(word?.endTime))
+    ? words.map(({ text, startTime, endTime, confidence }) => ({ text, startTime, endTime, ...(typeof confidence === 'number' ? { confidence } : {}) }))
+    : undefined;
+
+// Reads an archive written by `addSessionFiles`. The original video is optional since older exports may not have it.
+export const readSessionZip = async (file: Blob): Promise<Omit<SessionData, 'mediaId'>> => {
+  const zip = await JSZip.loadAsync(file).catch(() => { throw new Error('The file is not a ZIP archive.'); });
+  const sessionFile = zip.file('session.json');
+  if (!sessionFile) throw new Error('The archive has no session.json, so it is not a ScreenGuide session export.');
+  let session: any;
+  try {
+    session = JSON.parse(await sessionFile.async('string'));
+  } catch {
+    throw new Error('session.json is not valid JSON.');
+  }
+  const diarizedTranscript = session?.rawData?.diarizedTranscript ?? [];
+  const timecodedCaptions = session?.rawData?.timecodedCaptions ?? [];
+  if (!isTimedRows(diarizedTranscript, true) || !isTimedRows(timecodedCaptions, false)) throw new Error('session.json has a malformed transcript or captions.');
+  // Older exports have no speakers; entries without a name are dropped.
+  const speakers: Speaker[] = Array.isArray(session?.rawData?.speakers)
+    ? session.rawData.speakers.filter((s: any) => typeof s?.name === 'string' && s.name)
+      .map(({ name, role, color }: any) => ({ name, ...(typeof role === 'string' && role ? { role } : {}), ...(/^#[0-9a-f]{6}$/i.test(color) ? { color } : {}) }))
+    : [];
+  const glossary: GlossaryTerm[] = Array.isArray(session?.userContext?.glossary)
+    ? session.userContext.glossary.filter((t: any) => typeof t?.term === 'string' && t.term)
+      .map(({ term, variants }: any) => ({ term, variants: Array.isArray(variants) ? variants.filter((v: unknown) => typeof v === 'string') : [] }))
+    : [];
+  const format = OUTPUT_FORMATS.includes(session?.generatedOutput?.format) ? session.generatedOutput.format : 'guide';
+
+  const video = zip.file(/^video\/[^/]+$/)[0];
+  let videoFile: File | null = null;
+  if (video) {
+    const name = video.name.slice('video/'.length);
+    const extension = name.split('.').pop()?.toLowerCase() || '';
+    videoFile = new File([await video.async('blob')], name, { type: VIDEO_TYPES[extension] || `video/${extension || 'mp4'}` });
+  }
+
+  return {
+    videoFile,
+    description: String(session?.userContext?.videoDescription ?? ''),
+    prompt: String(session?.userContext?.userPrompt ?? ''),
+    glossary,
+    format,
+    diarizedTranscript: diarizedTranscript.map(({ speaker, startTime, endTime, text, words }: DiarizedSegment) => {
+      const timed = readWords(words);
+      return syncWords({ speaker, startTime, endTime, text, ...(timed ? { words: timed } : {}) });
+    }),
+    timecodedCaptions: timecodedCaptions.map(({ startTime, endTime, text }: Caption) => ({ startTime, endTime, text })),
+    speakers,
+    content: String(session?.generatedOutput?.content ?? ''),
+  };
+};
+
+export interface BatchIndexEntry {
+  name: string;
+  /** Folder of the recording's session inside the bundle; empty when it failed. */
+  folder: string;
+  format: OutputFormat;
+  error: string;
+}
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+// A standalone page listing every recording in a batch bundle, with links into each session folder.
+export const batchIndexPage = (entries: BatchIndexEntry[], createdAt = new Date()): string => {
+  const link = (href: string, label: string) => `<a href="${encodeURI(href)}">${label}</a>`;
+  const rows = entries.map((entry, index) => {
+    const files = entry.folder
+      ? [link(`${entry.folder}/output/${outputFileName(entry.format)}`, entry.format), link(`${entry.folder}/subtitles/transcript.srt`, 'SRT'), link(`${entry.folder}/subtitles/transcript.vtt`, 'VTT'), link(`${entry.folder}/subtitles/transcript.ass`, 'ASS'), link(`${entry.folder}/subtitles/transcript.json`, 'JSON'), link(`${entry.folder}/session.json`, 'session')].join(' · ')
+      : `<span class="error">Failed: ${escapeHtml(entry.error)}</span>`;
+    return `<tr><td>${index + 1}</td><td>${escapeHtml(entry.name)}</td><td>${files}</td></tr>`;
+  }).join('\n');
+  const succeeded = entries.filter(entry => entry.folder).length;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>ScreenGuide Batch</title>
+<style>
+body { font-family: ui-monospace, monospace; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+table { width: 100%; border-collapse: collapse; }
+th, td { text-align: left; padding: 0.5rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+.error { color: #b91c1c; }
+</style>
+</head>
+<body>
+<h1>ScreenGuide Batch</h1>
+<p>${succeeded} of ${entries.length} recordings processed · ${escapeHtml(createdAt.toLocaleString())}</p>
+<table>
+<thead><tr><th>#</th><th>Recording</th><th>Files</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>`;
+};
@@ -0,0 +1,60 @@
+import { DiarizedSegment, Speaker } from '../types';
+import { Timecode } from '@screenguide/shared/timecode';
+
+// Speakers are identified by the `speaker` label on their segments. A `Speaker` entry only exists once the user has given
+// that label a role or a colour, so renaming and merging move both the segments and the entry.
+
+/** Used in order of first appearance for speakers without a colour of their own; the same as the ASS export always used. */
+export const SPEAKER_COLORS = ['#ffff00', '#00ff00', '#00ffff', '#ff0000', '#ff00ff'];
+
+export interface SpeakerStats {
+  name: string;
+  segments: number;
+  /** Total length of their segments, in seconds. */
+  talkTime: number;
+  color: string;
+  role: string;
+}
+
+/** One entry per label in the transcript, in order of first appearance. */
+export const speakerStats = (transcript: DiarizedSegment[], speakers: Speaker[]): SpeakerStats[] => {
+  const stats = new Map<string, SpeakerStats>();
+  for (const segment of transcript) {
+    const entry = stats.get(segment.speaker) ?? { name: segment.speaker, segments: 0, talkTime: 0, color: '', role: '' };
+    const start = Timecode.parseOrZero(segment.startTime);
+    const end = Timecode.parseOrZero(segment.endTime);
+    entry.segments += 1;
+    entry.talkTime += end.compare(start) > 0 ? end.minus(start).seconds : 0;
+    stats.set(segment.speaker, entry);
+  }
+  return [...stats.values()].map((entry, i) => {
+    const speaker = speakers.find(s => s.name === entry.name);
+    return { ...entry, color: speaker?.color || SPEAKER_COLORS[i % SPEAKER_COLORS.length], role: speaker?.role || '' };
+  });
+};
+
+/** Relabels `from` as `to`. When `to` is already a speaker their details are kept, which makes this a merge. */
+export const renameSpeaker = (transcript: DiarizedSegment[], speakers: Speaker[], from: string, to: string) => {
+  const target = speakers.find(s => s.name === to);
+  return {
+    transcript: transcript.map(segment => segment.speaker === from ? { ...segment, speaker: to } : segment),
+    speakers: target
+      ? speakers.filter(s => s.name !== from)
+      : speakers.map(s => s.name === from ? { ...s, name: to } : s),
+  };
+};
+
+/** Sets `changes` on the entry for `name`, adding it if needed and dropping it once it carries nothing. */
+export const updateSpeaker = (speakers: Speaker[], name: string, changes: Partial<Omit<Speaker, 'name'>>): Speaker[] => {
+  const current = speakers.find(s => s.name === name);
+  const next = { ...(current ?? { name }), ...changes };
+  if (!next.role && !next.color) return speakers.filter(s => s.name !== name);
+  return current ? speakers.map(s => s === current ? next : s) : [...speakers, next];
+};
+
+/** Names and roles of the speakers in `transcript`, for the guide prompt. */
+export const speakersForPrompt = (transcript: DiarizedSegment[], speakers: Speaker[]): Speaker[] =>
+  [...new Set(transcript.map(segment => segment.speaker))].map(name => {
+    const role = speakers.find(s => s.name === name)?.role;
+    return role ? { name, role } : { name };
+  });
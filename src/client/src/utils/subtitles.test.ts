@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { DiarizedSegment, Caption } from '../types';
+import { exportToAss, exportToSrt, exportToVtt } from './exportUtils';
+import { parseAss, parseSrt, parseVtt, detectSubtitleFormat, cuesToTranscript } from './importUtils';
+
+const transcript: DiarizedSegment[] = [
+    { speaker: 'Speaker 1', startTime: '00:00:01.000', endTime: '00:00:03.500', text: 'Open the settings menu.' },
+    { speaker: 'Ana', startTime: '00:00:04.250', endTime: '00:00:06.000', text: 'Then pick <Advanced> & save.' },
+    { speaker: 'Speaker 1', startTime: '01:02:03.456', endTime: '01:02:05.000', text: 'Two lines\nof text.' },
+];
+const captions: Caption[] = [
+    { startTime: '00:00:07.000', endTime: '00:00:08.000', text: 'The dialog closes.' },
+];
+
+describe('subtitle round-trips', () => {
+    it('reads back SRT with the timings and text it wrote', () => {
+        // SRT cannot escape `<`, so text that looks like a formatting tag is left out here.
+        const plain = [transcript[0], transcript[2]];
+        const cues = parseSrt(exportToSrt(plain, [], { speakers: 'none' }));
+        expect(cues).toEqual(plain.map(({ startTime, endTime, text }) => ({ speaker: '', startTime, endTime, text })));
+    });
+
+    it('reads back WebVTT with speakers from voice tags and escaped text', () => {
+        const cues = parseVtt(exportToVtt(transcript, captions));
+        expect(cues).toEqual([transcript[0], transcript[1], { ...captions[0], speaker: '' }, transcript[2]]);
+    });
+
+    it('reads back ASS with speakers from styles, at centisecond precision', () => {
+        const cues = parseAss(exportToAss(transcript, captions));
+        expect(cues.map(cue => cue.speaker)).toEqual(['Speaker 1', 'Ana', '', 'Speaker 1']);
+        expect(cues.map(cue => cue.text)).toEqual([transcript[0].text, transcript[1].text, captions[0].text, transcript[2].text]);
+        expect(cues[3].startTime).toBe('01:02:03.460');
+        expect(cuesToTranscript(cues)[2].speaker).toBe('Speaker 1');
+    });
+
+    it('detects each exported format from its content', () => {
+        expect(detectSubtitleFormat('export.txt', exportToSrt(transcript, captions))).toBe('srt');
+        expect(detectSubtitleFormat('export.txt', exportToVtt(transcript, captions))).toBe('vtt');
+        expect(detectSubtitleFormat('export.txt', exportToAss(transcript, captions))).toBe('ass');
+    });
+});
+
+describe('subtitle export', () => {
+    it('orders cues by time, not as strings, so 9:00 comes before 10:00', () => {
+        const rows: Caption[] = [
+            { startTime: '10:00', endTime: '10:02', text: 'Later' },
+            { startTime: '9:00', endTime: '9:02', text: 'Earlier' },
+        ];
+        expect(parseVtt(exportToVtt([], rows)).map(cue => cue.text)).toEqual(['Earlier', 'Later']);
+        expect(parseSrt(exportToSrt([], rows)).map(cue => cue.startTime)).toEqual(['00:09:00.000', '00:10:00.000']);
+    });
+
+    it('splits overlapping cues for SRT and stacks their text', () => {
+        const srt = exportToSrt([{ speaker: 'Ana', startTime: '00:00:01.000', endTime: '00:00:04.000', text: 'Hello' }], [{ startTime: '00:00:02.000', endTime: '00:00:03.000', text: 'Menu opens' }]);
+        expect(parseSrt(srt)).toEqual([
+            { speaker: '', startTime: '00:00:01.000', endTime: '00:00:02.000', text: 'Ana: Hello' },
+            { speaker: '', startTime: '00:00:02.000', endTime: '00:00:03.000', text: 'Ana: Hello\nMenu opens' },
+            { speaker: '', startTime: '00:00:03.000', endTime: '00:00:04.000', text: 'Ana: Hello' },
+        ]);
+    });
+
+    it('drops cues without a positive duration', () => {
+        expect(exportToVtt([], [{ startTime: '00:00:02.000', endTime: '00:00:02.000', text: 'Empty' }])).toBe('WEBVTT\n');
+    });
+});
+
+describe('subtitle import', () => {
+    it('skips cues with a broken timing and strips formatting', () => {
+        const srt = '1\n00:00:01,000 --> 00:00:02,000\n<i>Kept</i>\n\n2\n00:00:xx,000 --> 00:00:03,000\nSkipped\n';
+        expect(parseSrt(srt)).toEqual([{ speaker: '', startTime: '00:00:01.000', endTime: '00:00:02.000', text: 'Kept' }]);
+    });
+
+    it('reads WebVTT short timings and ignores header blocks', () => {
+        const vtt = 'WEBVTT\n\nNOTE a comment\n\n01:02.500 --> 01:04.000\n<v.loud Sam>Hi &amp; welcome\n';
+        expect(parseVtt(vtt)).toEqual([{ speaker: 'Sam', startTime: '00:01:02.500', endTime: '00:01:04.000', text: 'Hi & welcome' }]);
+    });
+
+    it('keeps commas in ASS text and uses the format line for field order', () => {
+        const ass = '[Events]\nFormat: Start, End, Style, Name, Text\nDialogue: 0:00:01.00,0:00:02.50,Default,Sam,{\\b1}One, two\\Nthree\n';
+        expect(parseAss(ass)).toEqual([{ speaker: 'Sam', startTime: '00:00:01.000', endTime: '00:00:02.500', text: 'One, two\nthree' }]);
+    });
+});
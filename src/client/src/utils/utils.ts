@@ -1,27 +1,16 @@
-export const timeToSecs = (timecode: string): number => {
-  if (!timecode) return 0;
-  const parts = timecode.split(':');
-  
-  if (parts.length === 3) { // HH:MM:SS.ms
-    const ssms = parts[2].split('.').map(parseFloat);
-    const seconds = ssms[0] || 0;
-    const ms = ssms[1] || 0;
-    return (parseFloat(parts[0]) * 3600) + (parseFloat(parts[1]) * 60) + seconds + (ms / 1000);
-  }
-  
-  if (parts.length === 2) { // MM:SS.ms
-    const ssms = parts[1].split('.').map(parseFloat);
-    const seconds = ssms[0] || 0;
-    const ms = ssms[1] || 0;
-    return (parseFloat(parts[0]) * 60) + seconds + (ms / 1000);
-  }
+export const MAX_FILE_SIZE_MB = 500;
+export const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
 
-  if (parts.length === 1) { // SS.ms
-    const ssms = parts[0].split('.').map(parseFloat);
-    const seconds = ssms[0] || 0;
-    const ms = ssms[1] || 0;
-    return seconds + (ms / 1000);
-  }
-
-  return 0;
-};
+export const getMediaDuration = (file: File): Promise<number> => new Promise((resolve) => {
+  const video = document.createElement('video');
+  const url = URL.createObjectURL(file);
+  const finish = (duration: number) => {
+    URL.revokeObjectURL(url);
+    resolve(Number.isFinite(duration) ? duration : 0);
+  };
+  video.preload = 'metadata';
+  video.onloadedmetadata = () => finish(video.duration);
+  // A missing duration only disables bounds checking on the server, so errors are not fatal.
+  video.onerror = () => finish(0);
+  video.src = url;
+});
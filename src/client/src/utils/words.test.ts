@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { DiarizedSegment, TranscriptWord } from '../types';
+import { syncWords, retimeSegment, lowConfidenceWords } from './words';
+import { exportToAss, exportToVtt } from './exportUtils';
+
+const word = (text: string, startTime: string, endTime: string, confidence?: number): TranscriptWord =>
+  confidence === undefined ? { text, startTime, endTime } : { text, startTime, endTime, confidence };
+
+const segment: DiarizedSegment = {
+  speaker: 'Speaker 1',
+  startTime: '00:00:01.000',
+  endTime: '00:00:05.000',
+  text: 'open the file menu',
+  words: [
+    word('open', '00:00:01.000', '00:00:01.400', 0.95),
+    word('the', '00:00:01.500', '00:00:01.700', 0.9),
+    word('file', '00:00:02.000', '00:00:02.600', 0.4),
+    word('menu', '00:00:03.000', '00:00:03.800', 0.85),
+  ],
+};
+const edit = (text: string) => syncWords({ ...segment, text });
+
+describe('syncWords', () => {
+  it('returns an unchanged segment as it is', () => {
+    expect(syncWords(segment)).toBe(segment);
+    expect(edit('open  the file\nmenu')).toEqual({ ...segment, text: 'open  the file\nmenu' });
+  });
+
+  it('gives a replaced word the old timing and drops its confidence', () => {
+    expect(edit('open the edit menu').words).toEqual([segment.words![0], segment.words![1], word('edit', '00:00:02.000', '00:00:02.600'), segment.words![3]]);
+  });
+
+  it('keeps the words around an insertion and spreads new words over the gap', () => {
+    expect(edit('open the new file menu').words).toEqual([
+      segment.words![0], segment.words![1], word('new', '00:00:01.700', '00:00:02.000'), segment.words![2], segment.words![3],
+    ]);
+  });
+
+  it('spreads several words over the span of the ones they replace', () => {
+    expect(edit('open the settings page menu').words!.slice(2, 4)).toEqual([word('settings', '00:00:02.000', '00:00:02.300'), word('page', '00:00:02.300', '00:00:02.600')]);
+  });
+
+  it('drops deleted words and keeps the longest common run', () => {
+    expect(edit('open menu').words).toEqual([segment.words![0], segment.words![3]]);
+    expect(edit('menu the open').words!.filter(w => w.confidence !== undefined)).toHaveLength(1);
+  });
+
+  it('times words typed after the last one up to the end of the segment', () => {
+    expect(edit('open the file menu now').words![4]).toEqual(word('now', '00:00:03.800', '00:00:05.000'));
+  });
+
+  it('removes the words when the text is cleared and leaves untimed segments alone', () => {
+    expect(edit('')).not.toHaveProperty('words');
+    const untimed = { ...segment, words: undefined, text: 'changed' };
+    expect(syncWords(untimed)).toBe(untimed);
+  });
+});
+
+describe('retimeSegment', () => {
+  it('moves the words along when the whole segment moves', () => {
+    const moved = retimeSegment(segment, '00:00:11.000', '00:00:15.000');
+    expect(moved.words!.map(w => w.startTime)).toEqual(['00:00:11.000', '00:00:11.500', '00:00:12.000', '00:00:13.000']);
+  });
+
+  it('keeps the words inside a resized segment', () => {
+    const resized = retimeSegment(segment, '00:00:01.600', '00:00:02.500');
+    expect(resized.words!.map(w => [w.startTime, w.endTime])).toEqual([
+      ['00:00:01.600', '00:00:01.600'], ['00:00:01.600', '00:00:01.700'], ['00:00:02.000', '00:00:02.500'], ['00:00:02.500', '00:00:02.500'],
+    ]);
+  });
+});
+
+describe('word-level exports', () => {
+  it('flags words below the confidence threshold', () => {
+    expect(lowConfidenceWords(segment).map(w => w.text)).toEqual(['file']);
+  });
+
+  it('writes ASS karaoke syllables, with pauses as empty syllables', () => {
+    const dialogue = exportToAss([segment], []).split('\n').find(line => line.startsWith('Dialogue:'));
+    expect(dialogue).toBe('Dialogue: 0,0:00:01.00,0:00:05.00,Speaker 1,,0,0,0,,{\\k40}open {\\k10}{\\k20}the {\\k30}{\\k60}file {\\k40}{\\k80}menu');
+  });
+
+  it('writes WebVTT inline timestamps after the first word', () => {
+    expect(exportToVtt([segment], [], { speakers: 'none' })).toBe('WEBVTT\n\n00:00:01.000 --> 00:00:05.000\nopen <00:00:01.500>the <00:00:02.000>file <00:00:03.000>menu\n');
+  });
+
+  it('falls back to plain text when the words no longer line up with it', () => {
+    const stale = { ...segment, text: 'open the menu' };
+    expect(exportToVtt([stale], [], { speakers: 'none' })).toContain('\nopen the menu\n');
+  });
+});
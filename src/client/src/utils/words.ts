@@ -0,0 +1,71 @@
+import { DiarizedSegment, TranscriptWord } from '../types';
+import { Timecode } from '@screenguide/shared/timecode';
+
+// A segment's `words` are timings for the whitespace-separated words of its text, in order. Edits to the text are
+// carried over to them here so the two stay in step.
+
+/** Words the transcriber was less sure of than this are flagged in the editor. */
+export const LOW_CONFIDENCE = 0.6;
+
+export const tokens = (text: string) => text.split(/\s+/).filter(Boolean);
+
+export const lowConfidenceWords = (segment: DiarizedSegment) =>
+  (segment.words || []).filter(word => word.confidence !== undefined && word.confidence < LOW_CONFIDENCE);
+
+// Words that replace the same number of old ones take their timings; otherwise they share the old words' span evenly.
+// Either way they lose their confidence, since the user has typed them.
+const retimeRun = (replaced: TranscriptWord[], added: string[], after: string, before: string): TranscriptWord[] => {
+  if (replaced.length === added.length) return added.map((text, i) => ({ text, startTime: replaced[i].startTime, endTime: replaced[i].endTime }));
+  const start = Timecode.parseOrZero(replaced.length > 0 ? replaced[0].startTime : after);
+  const end = Timecode.parseOrZero(replaced.length > 0 ? replaced[replaced.length - 1].endTime : before);
+  const step = Math.max(0, end.seconds - start.seconds) / added.length;
+  return added.map((text, i) => ({ text, startTime: start.plus(step * i).toString(), endTime: start.plus(step * (i + 1)).toString() }));
+};
+
+/**
+ * Brings `segment.words` in line with its text. Words still in the text keep their timing and confidence, found by the
+ * longest common run of words; unchanged segments are returned as they are, so undo snapshots can share them.
+ */
+export const syncWords = (segment: DiarizedSegment): DiarizedSegment => {
+  const { words, ...rest } = segment;
+  if (!words) return segment;
+  const texts = tokens(segment.text);
+  if (words.length === texts.length && words.every((word, i) => word.text === texts[i])) return segment;
+  if (words.length === 0 || texts.length === 0) return rest;
+
+  const common = Array.from({ length: words.length + 1 }, () => new Array<number>(texts.length + 1).fill(0));
+  for (let i = words.length - 1; i >= 0; i--) {
+    for (let j = texts.length - 1; j >= 0; j--) {
+      common[i][j] = words[i].text === texts[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+  const matches: [number, number][] = [];
+  for (let i = 0, j = 0; i < words.length && j < texts.length;) {
+    if (words[i].text === texts[j]) matches.push([i++, j++]);
+    else if (common[i + 1][j] >= common[i][j + 1]) i++;
+    else j++;
+  }
+
+  const synced: TranscriptWord[] = [];
+  let [i, j] = [0, 0];
+  for (const [matchI, matchJ] of [...matches, [words.length, texts.length]]) {
+    if (matchJ > j) {
+      const after = synced.length > 0 ? synced[synced.length - 1].endTime : segment.startTime;
+      synced.push(...retimeRun(words.slice(i, matchI), texts.slice(j, matchJ), after, words[matchI]?.startTime ?? segment.endTime));
+    }
+    if (matchI < words.length) synced.push(words[matchI]);
+    [i, j] = [matchI + 1, matchJ + 1];
+  }
+  return { ...rest, words: synced };
+};
+
+/** Moves a segment to new times. Its words move along when the whole segment moves and are kept inside it when it is resized. */
+export const retimeSegment = (segment: DiarizedSegment, startTime: string, endTime: string): DiarizedSegment => {
+  if (!segment.words) return { ...segment, startTime, endTime };
+  const [start, end] = [Timecode.parseOrZero(startTime), Timecode.parseOrZero(endTime)];
+  const [oldStart, oldEnd] = [Timecode.parseOrZero(segment.startTime), Timecode.parseOrZero(segment.endTime)];
+  // Dragged times are rounded to the millisecond, so a move can change the length by one.
+  const moved = Math.abs((end.ms - start.ms) - (oldEnd.ms - oldStart.ms)) <= 1;
+  const time = (value: string) => moved ? Timecode.parseOrZero(value).plus(start.seconds - oldStart.seconds) : Timecode.parseOrZero(value).clamp(start, end);
+  return { ...segment, startTime, endTime, words: segment.words.map(word => ({ ...word, startTime: time(word.startTime).toString(), endTime: time(word.endTime).toString() })) };
+};
@@ -0,0 +1,126 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import type { GlossaryTerm, OutputFormat } from '@screenguide/shared';
+import { importMedia, deleteMedia } from './services/media';
+import { probeDuration, FrameFormat, FRAME_MIME_TYPES } from './services/ffmpeg';
+import { runPipeline } from './services/pipeline';
+import { writeSession } from './services/session';
+import { formatInstructions } from './services/prompts';
+import { getProvider } from './services/llm';
+import { toAppError } from './services/errors';
+
+const USAGE = `Usage: screenguide process <recording> [options]
+
+Transcribes and captions a local recording, generates a document and writes the
+same layout as ScreenGuide-Session.zip: session.json, output/, images/ and subtitles/.
+
+Options:
+  --format <format>         guide, article, slides or diagram (default: guide)
+  --description <text>      What the recording shows
+  --prompt <text>           Extra instructions for the generated document
+  --glossary <file>         Terms to spell consistently, one per line, with
+                            misspellings after a colon: "ScreenGuide: screen guide"
+  --out <dir>               Output directory (default: ./out)
+  --skip-audio              Do not transcribe speech
+  --chunked                 Process the recording in overlapping windows
+  --no-cache                Ignore cached model results
+  --image-format <format>   png, jpeg or webp (default: png)
+  --image-quality <1-100>   Quality of jpeg and webp screenshots (default: 85)
+  -h, --help                Show this help`;
+
+class UsageError extends Error {}
+
+// The editor's glossary format: `Preferred spelling: variant, variant`, one term per line.
+function readGlossary(file: string): GlossaryTerm[] {
+    if (!fs.existsSync(file)) throw new UsageError(`Glossary not found: ${file}`);
+    return fs.readFileSync(file, 'utf8').split(/\r?\n/).flatMap(line => {
+        const [term, variants = ''] = line.split(/:\s(.*)/s);
+        if (!term.trim()) return [];
+        return [{ term: term.trim(), variants: variants.split(',').map(v => v.trim()).filter(Boolean) }];
+    });
+}
+
+function parseCommandLine() {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            format: { type: 'string', default: 'guide' },
+            description: { type: 'string', default: '' },
+            prompt: { type: 'string', default: '' },
+            glossary: { type: 'string' },
+            out: { type: 'string', default: 'out' },
+            'skip-audio': { type: 'boolean', default: false },
+            chunked: { type: 'boolean' },
+            'no-cache': { type: 'boolean', default: false },
+            'image-format': { type: 'string', default: 'png' },
+            'image-quality': { type: 'string', default: '85' },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+    if (values.help) return null;
+    const [command, file, ...rest] = positionals;
+    if (command !== 'process') throw new UsageError(command ? `Unknown command: ${command}` : 'Missing command.');
+    if (!file || rest.length > 0) throw new UsageError('Expected exactly one recording.');
+    if (!formatInstructions[values.format]) throw new UsageError(`Unknown format: ${values.format}`);
+    if (!FRAME_MIME_TYPES[values['image-format'] as FrameFormat]) throw new UsageError(`Unknown image format: ${values['image-format']}`);
+    const quality = Number(values['image-quality']);
+    if (!(quality >= 1 && quality <= 100)) throw new UsageError(`Image quality must be between 1 and 100, got ${values['image-quality']}.`);
+    return {
+        file: path.resolve(file),
+        outDir: path.resolve(values.out),
+        options: { description: values.description, prompt: values.prompt, format: values.format as OutputFormat, glossary: values.glossary ? readGlossary(values.glossary) : undefined, skipAudio: values['skip-audio'], chunked: values.chunked, bypassCache: values['no-cache'] },
+        frameOptions: { format: values['image-format'] as FrameFormat, quality },
+    };
+}
+
+async function processRecording({ file, outDir, options, frameOptions }: NonNullable<ReturnType<typeof parseCommandLine>>, signal: AbortSignal) {
+    if (!fs.existsSync(file)) throw new UsageError(`File not found: ${file}`);
+    console.error(`Using LLM provider: ${getProvider().name}`);
+    const media = await importMedia(file, await probeDuration(file).catch(() => undefined));
+    try {
+        const result = await runPipeline(media.id, options, stage => console.error(`${stage}...`), signal);
+        console.error('Writing session...');
+        await writeSession(outDir, media.id, { ...result, description: options.description, prompt: options.prompt, format: options.format, glossary: options.glossary }, frameOptions);
+    } finally {
+        // Results stay in the cache, which is keyed by content hash, so the copy is not needed for a re-run.
+        await deleteMedia(media.id).catch(() => {});
+    }
+    console.error(`Done: ${outDir}`);
+}
+
+async function main(): Promise<number> {
+    let args;
+    try {
+        args = parseCommandLine();
+    } catch (error) {
+        console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+        return 2;
+    }
+    if (!args) {
+        console.log(USAGE);
+        return 0;
+    }
+    const controller = new AbortController();
+    process.once('SIGINT', () => controller.abort());
+    try {
+        await processRecording(args, controller.signal);
+        return 0;
+    } catch (error) {
+        if (controller.signal.aborted) {
+            console.error('Cancelled.');
+            return 130;
+        }
+        if (error instanceof UsageError) {
+            console.error(error.message);
+            return 2;
+        }
+        const { code, message } = toAppError(error, 'Processing failed');
+        console.error(`Error (${code}): ${message}`);
+        return 1;
+    }
+}
+
+main().then(code => process.exit(code));
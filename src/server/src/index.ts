@@ -1,17 +1,27 @@
-import express from 'express';
+import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
-import apiRouter from './routes/api';
+import v1Router from './routes/v1';
+import { resumeJobs } from './services/jobs';
+import { getProvider } from './services/llm';
+import { handleError } from './utils/http';
 import 'dotenv/config';
 
 const app = express();
 const port = process.env.PORT || 3000;
 
 app.use(cors());
-// Increase payload size limit for base64 video data, matching client-side limit
-app.use(express.json({ limit: '600mb' }));
+// Recordings arrive through the multipart /api/v1/media route; JSON bodies only carry media IDs and text.
+app.use(express.json({ limit: '10mb' }));
 
-app.use('/api', apiRouter);
+app.use('/api/v1', v1Router);
+// Unversioned paths predate v1 and stay as an alias for existing clients.
+app.use('/api', v1Router);
+
+// Errors raised before a route runs, such as a malformed or oversized JSON body.
+app.use((error: unknown, _req: Request, res: Response, _next: NextFunction) => handleError(res, error, 'Failed to process request'));
 
 app.listen(port, () => {
   console.log(`Server is running at http://localhost:${port}`);
+  console.log(`Using LLM provider: ${getProvider().name}`);
+  resumeJobs().catch(error => console.error('Failed to resume queued jobs:', error));
 });
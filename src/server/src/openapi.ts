@@ -0,0 +1,330 @@
+// OpenAPI description of /api/v1, served at /api/v1/openapi.json. The component schemas double as the
+// request and response validators in utils/validate.ts and mirror the types in @screenguide/shared.
+
+// Helpers take plain strings because the schema names are derived from the object they help build; an
+// unknown reference still fails at startup when utils/validate.ts compiles the schemas.
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const jsonContent = (name: string) => ({ 'application/json': { schema: ref(name) } });
+const ok = (name: string, description = 'OK') => ({ description, content: jsonContent(name) });
+const body = (name: string) => ({ required: true, content: jsonContent(name) });
+const noContent = { '204': { description: 'No content' } };
+const errors = {
+    '400': ok('ApiError', 'invalid_request: the request failed validation'),
+    '404': ok('ApiError', 'not_found: the media, project, recording or job does not exist'),
+    '500': ok('ApiError', 'internal: the server failed'),
+};
+// Routes that call a model can also fail in the provider.
+const modelErrors = {
+    ...errors,
+    '422': ok('ApiError', 'safety_blocked: the provider refused to answer'),
+    '429': ok('ApiError', 'rate_limited: the provider quota or rate limit was hit; see retryAfter'),
+    '502': ok('ApiError', 'malformed_output: the model answer could not be used'),
+    '503': ok('ApiError', 'provider_unavailable: the provider is unreachable or misconfigured'),
+    '504': ok('ApiError', 'model_timeout: the model did not answer in time'),
+};
+const uploadErrors = {
+    ...errors,
+    '413': ok('ApiError', 'payload_too_large: the recording exceeds the upload limit'),
+    '415': ok('ApiError', 'unsupported_media_type: the file is not video or audio'),
+};
+const path = (name: string, description: string, schema: object = { type: 'string' }) => ({ name, in: 'path', required: true, schema, description });
+const query = (name: string, description: string, schema: object = { type: 'string' }) => ({ name, in: 'query', required: false, schema, description });
+
+const timecode = { type: 'string', description: 'HH:MM:SS.mmm. `MM:SS.mmm`, `SS.mmm` and a comma before the fraction are also read; saved rows are rewritten as HH:MM:SS.mmm.', example: '00:01:23.456' };
+const nullableString = { type: ['string', 'null'] };
+const frameOptions = {
+    format: { type: 'string', enum: ['png', 'jpeg', 'webp'], default: 'png' },
+    width: { type: 'integer', minimum: 1 },
+    height: { type: 'integer', minimum: 1 },
+    quality: { type: 'integer', minimum: 1, maximum: 100, description: 'Ignored for PNG' },
+};
+const cacheControl = { bypassCache: { type: 'boolean', description: 'Skip the result cache lookup; the fresh result still replaces the cached one.' } };
+const projectFields = { name: { type: 'string' }, description: { type: 'string' }, userPrompt: { type: 'string' }, outputFormat: { type: 'string' } };
+const listOf = (name: string) => ({ type: 'array', items: ref(name) });
+
+const schemas = {
+    ErrorCode: { type: 'string', enum: ['invalid_request', 'not_found', 'payload_too_large', 'unsupported_media_type', 'safety_blocked', 'rate_limited', 'internal', 'malformed_output', 'provider_unavailable', 'model_timeout'] },
+    ApiError: {
+        type: 'object', required: ['error', 'code', 'retryable'],
+        properties: {
+            error: { type: 'string' },
+            code: ref('ErrorCode'),
+            retryable: { type: 'boolean', description: 'Whether sending the same request again may succeed' },
+            retryAfter: { type: 'number', description: 'Seconds to wait before retrying, when the provider said so' },
+        },
+    },
+    Caption: { type: 'object', required: ['startTime', 'endTime', 'text'], properties: { startTime: timecode, endTime: timecode, text: { type: 'string' } } },
+    TranscriptWord: {
+        type: 'object', required: ['text', 'startTime', 'endTime'],
+        properties: { text: { type: 'string' }, startTime: timecode, endTime: timecode, confidence: { type: 'number', minimum: 0, maximum: 1, description: 'How sure the transcriber was of the word' } },
+    },
+    DiarizedSegment: {
+        type: 'object', required: ['speaker', 'startTime', 'endTime', 'text'],
+        properties: { speaker: { type: 'string' }, startTime: timecode, endTime: timecode, text: { type: 'string' }, words: { ...listOf('TranscriptWord'), description: 'One per whitespace-separated word of text, when word timings are known' } },
+    },
+    Captions: listOf('Caption'),
+    Transcript: listOf('DiarizedSegment'),
+    Speaker: {
+        type: 'object', required: ['name'],
+        properties: { name: { type: 'string', minLength: 1 }, role: { type: 'string' }, color: { type: 'string', pattern: '^#[0-9a-fA-F]{6}$', description: 'Colour of their lines in ASS subtitles' } },
+    },
+    Speakers: listOf('Speaker'),
+    GlossaryTerm: {
+        type: 'object', required: ['term', 'variants'],
+        properties: { term: { type: 'string', minLength: 1, description: 'Preferred spelling' }, variants: { type: 'array', items: { type: 'string' }, description: 'Spellings to replace with the term' } },
+    },
+    Glossary: listOf('GlossaryTerm'),
+    OutputFormat: { type: 'string', enum: ['guide', 'article', 'slides', 'diagram'] },
+    MediaInfo: {
+        type: 'object', required: ['mediaId', 'mimeType', 'size'],
+        properties: { mediaId: { type: 'string' }, mimeType: { type: 'string' }, size: { type: 'integer' }, duration: { type: 'number', description: 'Seconds' }, originalName: { type: 'string' }, createdAt: { type: 'string', format: 'date-time' } },
+    },
+    AnalysisRequest: {
+        type: 'object', required: ['mediaId'],
+        properties: { mediaId: { type: 'string' }, description: { type: 'string' }, userPrompt: { type: 'string' }, glossary: ref('Glossary'), ...cacheControl },
+    },
+    GuideRequest: {
+        type: 'object', required: ['mediaId', 'transcript', 'description', 'prompt', 'format'],
+        properties: { mediaId: { type: 'string' }, transcript: { type: 'string' }, description: { type: 'string' }, prompt: { type: 'string' }, format: ref('OutputFormat'), speakers: ref('Speakers'), glossary: ref('Glossary'), ...cacheControl },
+    },
+    GuideResponse: { type: 'object', required: ['content'], properties: { content: { type: 'string' } } },
+    RewriteRequest: { type: 'object', required: ['textToRewrite', 'prompt'], properties: { textToRewrite: { type: 'string' }, prompt: { type: 'string' } } },
+    RewriteResponse: { type: 'object', required: ['rewrittenText'], properties: { rewrittenText: { type: 'string' } } },
+    SummaryRequest: {
+        type: 'object', required: ['mediaId', 'transcript', 'description'],
+        properties: { mediaId: { type: 'string' }, transcript: { type: 'string' }, description: { type: 'string' }, ...cacheControl },
+    },
+    SummaryResponse: { type: 'object', required: ['summary'], properties: { summary: { type: 'string' } } },
+    FramesRequest: { type: 'object', required: ['timecodes'], properties: { timecodes: { type: 'array', items: timecode }, ...frameOptions } },
+    FramesResponse: {
+        type: 'object', required: ['frames'],
+        properties: {
+            frames: {
+                type: 'array',
+                items: { type: 'object', required: ['timecode'], properties: { timecode: { type: 'string' }, mimeType: { type: 'string' }, data: { type: 'string', description: 'Base64 image' }, error: { type: 'string' } } },
+            },
+        },
+    },
+    Waveform: {
+        type: 'object', required: ['peaksPerSecond', 'peaks'],
+        properties: { peaksPerSecond: { type: 'integer', minimum: 1 }, peaks: { type: 'array', items: { type: 'number', minimum: 0, maximum: 1 }, description: 'Peak amplitude of each slice, in order' } },
+    },
+    ProjectFields: { type: 'object', properties: projectFields },
+    ProjectSummary: {
+        type: 'object', required: ['id', 'name', 'description', 'userPrompt', 'outputFormat', 'createdAt', 'updatedAt'],
+        properties: { id: { type: 'string' }, ...projectFields, createdAt: { type: 'string', format: 'date-time' }, updatedAt: { type: 'string', format: 'date-time' } },
+    },
+    ProjectSummaries: listOf('ProjectSummary'),
+    RecordingFields: {
+        type: 'object', required: ['mediaId', 'fileName', 'mimeType', 'size'],
+        properties: { mediaId: { type: 'string' }, fileName: { type: 'string' }, mimeType: { type: 'string' }, size: { type: 'integer', minimum: 0 } },
+    },
+    Recording: {
+        allOf: [ref('RecordingFields'), { type: 'object', required: ['id'], properties: { id: { type: 'string' }, transcript: ref('Transcript'), captions: ref('Captions'), speakers: ref('Speakers') } }],
+    },
+    GeneratedDocument: {
+        type: 'object', required: ['id', 'recordingId', 'format', 'content', 'summary', 'updatedAt'],
+        properties: { id: { type: 'string' }, recordingId: nullableString, format: { type: 'string' }, content: { type: 'string' }, summary: { type: 'string' }, updatedAt: { type: 'string', format: 'date-time' } },
+    },
+    DocumentRequest: { type: 'object', required: ['content'], properties: { content: { type: 'string' }, summary: { type: 'string' }, recordingId: nullableString } },
+    Project: {
+        allOf: [ref('ProjectSummary'), { type: 'object', required: ['recordings', 'documents'], properties: { recordings: listOf('Recording'), documents: listOf('GeneratedDocument'), glossary: ref('Glossary') } }],
+    },
+    TranscriptUpdate: { type: 'object', required: ['transcript'], properties: { transcript: ref('Transcript') } },
+    CaptionsUpdate: { type: 'object', required: ['captions'], properties: { captions: ref('Captions') } },
+    SpeakersUpdate: { type: 'object', required: ['speakers'], properties: { speakers: ref('Speakers') } },
+    GlossaryUpdate: { type: 'object', required: ['glossary'], properties: { glossary: ref('Glossary') } },
+    JobParams: {
+        type: 'object', required: ['mediaId'],
+        properties: {
+            mediaId: { type: 'string' }, description: { type: 'string' }, userPrompt: { type: 'string' }, glossary: ref('Glossary'),
+            projectId: { type: 'string' }, recordingId: { type: 'string' },
+            chunked: { type: 'boolean', description: 'true forces windowed processing, false disables it; unset chunks long recordings automatically.' },
+            chunkOptions: { type: 'object', properties: { windowSeconds: { type: 'number', exclusiveMinimum: 0 }, overlapSeconds: { type: 'number', minimum: 0 } } },
+            transcript: { type: 'string', description: 'Guide jobs only' }, prompt: { type: 'string', description: 'Guide jobs only' }, format: ref('OutputFormat'), speakers: ref('Speakers'),
+            ...cacheControl,
+        },
+    },
+    JobRequest: { type: 'object', required: ['type', 'params'], properties: { type: { type: 'string', enum: ['transcribe', 'captions', 'guide'] }, params: ref('JobParams') } },
+    Job: {
+        type: 'object', required: ['id', 'type', 'status', 'stage', 'progress', 'error', 'projectId', 'createdAt', 'updatedAt'],
+        properties: {
+            id: { type: 'string' }, type: { type: 'string', enum: ['transcribe', 'captions', 'guide'] }, status: { type: 'string', enum: ['queued', 'running', 'failed', 'done', 'cancelled'] },
+            stage: { type: 'string' }, progress: { type: 'number', minimum: 0, maximum: 100 }, result: { description: 'Transcript, captions or document content once the job is done' },
+            error: nullableString, errorCode: { anyOf: [ref('ErrorCode'), { type: 'null' }] }, projectId: nullableString,
+            createdAt: { type: 'string', format: 'date-time' }, updatedAt: { type: 'string', format: 'date-time' }, startedAt: nullableString, finishedAt: nullableString,
+        },
+    },
+    Jobs: listOf('Job'),
+    CacheEntry: {
+        type: 'object', required: ['key', 'operation', 'mediaHash', 'provider', 'model', 'params', 'hits', 'createdAt'],
+        properties: {
+            key: { type: 'string' }, operation: { type: 'string' }, mediaHash: { type: 'string' }, provider: { type: 'string' }, model: { type: 'string' },
+            params: { type: 'string', description: 'JSON of the prompt parameters in the cache key' }, hits: { type: 'integer' },
+            createdAt: { type: 'string', format: 'date-time' }, lastHitAt: nullableString,
+        },
+    },
+    CacheEntries: listOf('CacheEntry'),
+    PurgeResponse: { type: 'object', required: ['purged'], properties: { purged: { type: 'integer' } } },
+};
+
+export type SchemaName = keyof typeof schemas;
+
+const eventStream = (description: string) => ({ description, content: { 'text/event-stream': { schema: { type: 'string' } } } });
+const mediaId = path('id', 'Media ID returned by the upload');
+const projectId = path('id', 'Project ID');
+const recordingId = path('recordingId', 'Recording ID');
+const cacheFilters = [query('mediaId', 'Only entries for this recording'), query('operation', 'Only entries for this operation')];
+
+export const openApiDocument = {
+    openapi: '3.1.0',
+    info: {
+        title: 'ScreenGuide API',
+        version: '1.0.0',
+        description: 'Upload screen recordings, transcribe and caption them, and generate guides from them. Long-running work can be queued as jobs and followed over Server-Sent Events.',
+    },
+    servers: [{ url: '/api/v1' }],
+    paths: {
+        '/media': {
+            post: {
+                summary: 'Upload a recording',
+                requestBody: {
+                    required: true,
+                    content: { 'multipart/form-data': { schema: { type: 'object', required: ['media'], properties: { duration: { type: 'number', description: 'Length in seconds; send before the file' }, media: { type: 'string', format: 'binary' } } } } },
+                },
+                responses: { '201': ok('MediaInfo', 'Created'), ...uploadErrors },
+            },
+        },
+        '/media/{id}': {
+            parameters: [mediaId],
+            get: { summary: 'Describe an uploaded recording', responses: { '200': ok('MediaInfo'), ...errors } },
+            delete: { summary: 'Delete an uploaded recording', responses: { ...noContent, ...errors } },
+        },
+        '/media/{id}/content': {
+            parameters: [mediaId],
+            get: { summary: 'Download the recording', responses: { '200': { description: 'The recording as uploaded' }, ...errors } },
+        },
+        '/media/{id}/frame': {
+            parameters: [mediaId],
+            get: {
+                summary: 'Extract one frame',
+                parameters: [
+                    { ...query('time', 'Timecode of the frame', timecode), required: true },
+                    query('format', 'Image format', frameOptions.format), query('width', 'Scale to this width', frameOptions.width),
+                    query('height', 'Scale to this height', frameOptions.height), query('quality', 'JPEG or WebP quality', frameOptions.quality),
+                ],
+                responses: { '200': { description: 'The image', content: { 'image/png': {}, 'image/jpeg': {}, 'image/webp': {} } }, ...errors },
+            },
+        },
+        '/media/{id}/frames': {
+            parameters: [mediaId],
+            post: { summary: 'Extract frames at several timecodes', description: 'A timecode that cannot be extracted yields an entry with `error` instead of failing the request.', requestBody: body('FramesRequest'), responses: { '200': ok('FramesResponse'), ...errors } },
+        },
+        '/media/{id}/waveform': {
+            parameters: [mediaId],
+            get: {
+                summary: 'Audio waveform peaks',
+                parameters: [query('peaksPerSecond', 'Peaks per second of audio, 1-200', { type: 'integer', minimum: 1, maximum: 200, default: 50 })],
+                responses: { '200': ok('Waveform'), ...errors },
+            },
+        },
+        '/transcribe': {
+            post: { summary: 'Diarized transcript of a recording', requestBody: body('AnalysisRequest'), responses: { '200': ok('Transcript'), ...modelErrors } },
+        },
+        '/captions': {
+            post: { summary: 'Timecoded captions of a recording', requestBody: body('AnalysisRequest'), responses: { '200': ok('Captions'), ...modelErrors } },
+        },
+        '/generate-guide': {
+            post: { summary: 'Generate a document from a recording', requestBody: body('GuideRequest'), responses: { '200': ok('GuideResponse'), ...modelErrors } },
+        },
+        '/generate-guide/stream': {
+            post: {
+                summary: 'Stream a document while the model writes it',
+                description: 'Sends `chunk` events with `{ text }`, then `done`, or `error` with an ApiError. Closing the connection stops generation.',
+                requestBody: body('GuideRequest'),
+                responses: { '200': eventStream('Server-Sent Events'), ...modelErrors },
+            },
+        },
+        '/rewrite': {
+            post: { summary: 'Rewrite a passage', requestBody: body('RewriteRequest'), responses: { '200': ok('RewriteResponse'), ...modelErrors } },
+        },
+        '/summarize': {
+            post: { summary: 'Summarize a recording', requestBody: body('SummaryRequest'), responses: { '200': ok('SummaryResponse'), ...modelErrors } },
+        },
+        '/projects': {
+            get: { summary: 'List projects, most recently updated first', responses: { '200': ok('ProjectSummaries'), ...errors } },
+            post: { summary: 'Create a project', requestBody: body('ProjectFields'), responses: { '201': ok('ProjectSummary', 'Created'), ...errors } },
+        },
+        '/projects/{id}': {
+            parameters: [projectId],
+            get: { summary: 'Load a project with its recordings and documents', responses: { '200': ok('Project'), ...errors } },
+            patch: { summary: 'Update project fields', requestBody: body('ProjectFields'), responses: { '200': ok('ProjectSummary'), ...errors } },
+            delete: { summary: 'Delete a project', responses: { ...noContent, ...errors } },
+        },
+        '/projects/{id}/recordings': {
+            parameters: [projectId],
+            post: { summary: 'Attach an uploaded recording', requestBody: body('RecordingFields'), responses: { '201': ok('Recording', 'Created'), ...errors } },
+        },
+        '/projects/{id}/recordings/{recordingId}': {
+            parameters: [projectId, recordingId],
+            delete: { summary: 'Remove a recording from the project', responses: { ...noContent, ...errors } },
+        },
+        '/projects/{id}/recordings/{recordingId}/transcript': {
+            parameters: [projectId, recordingId],
+            put: { summary: 'Replace the transcript', requestBody: body('TranscriptUpdate'), responses: { ...noContent, ...errors } },
+        },
+        '/projects/{id}/recordings/{recordingId}/captions': {
+            parameters: [projectId, recordingId],
+            put: { summary: 'Replace the captions', requestBody: body('CaptionsUpdate'), responses: { ...noContent, ...errors } },
+        },
+        '/projects/{id}/recordings/{recordingId}/speakers': {
+            parameters: [projectId, recordingId],
+            put: { summary: 'Replace the speaker names, roles and colours', requestBody: body('SpeakersUpdate'), responses: { ...noContent, ...errors } },
+        },
+        '/projects/{id}/glossary': {
+            parameters: [projectId],
+            put: { summary: 'Replace the glossary used when transcribing and generating', requestBody: body('GlossaryUpdate'), responses: { ...noContent, ...errors } },
+        },
+        '/projects/{id}/documents/{format}': {
+            parameters: [projectId, path('format', 'Output format the document was generated in', ref('OutputFormat'))],
+            put: { summary: 'Save the document for a format', requestBody: body('DocumentRequest'), responses: { '200': ok('GeneratedDocument'), ...errors } },
+        },
+        '/jobs': {
+            get: {
+                summary: 'List recent jobs',
+                parameters: [query('projectId', 'Only jobs for this project'), query('active', 'Only queued and running jobs', { type: 'boolean' })],
+                responses: { '200': ok('Jobs'), ...errors },
+            },
+            post: { summary: 'Queue a transcription, caption or guide job', requestBody: body('JobRequest'), responses: { '202': ok('Job', 'Queued'), ...errors } },
+        },
+        '/jobs/{id}': {
+            parameters: [path('id', 'Job ID')],
+            get: { summary: 'Job status and result', responses: { '200': ok('Job'), ...errors } },
+        },
+        '/jobs/{id}/cancel': {
+            parameters: [path('id', 'Job ID')],
+            post: {
+                summary: 'Cancel a job',
+                description: 'A queued job is cancelled at once. A running job stops its model call and reports `cancelled` on its event stream shortly after. Finished jobs are returned unchanged.',
+                responses: { '200': ok('Job'), ...errors },
+            },
+        },
+        '/jobs/{id}/events': {
+            parameters: [path('id', 'Job ID')],
+            get: { summary: 'Follow a job', description: 'Sends the job as a message on every update and closes once it is done, failed or cancelled.', responses: { '200': eventStream('Server-Sent Events carrying Job objects'), ...errors } },
+        },
+        '/cache': {
+            get: { summary: 'List cached model results', parameters: cacheFilters, responses: { '200': ok('CacheEntries'), ...errors } },
+            delete: {
+                summary: 'Purge cached model results', description: 'Needs mediaId, operation or all=true.',
+                parameters: [...cacheFilters, query('all', 'Purge every entry; required when no other filter is given', { type: 'boolean' })],
+                responses: { '200': ok('PurgeResponse'), ...errors },
+            },
+        },
+        '/cache/{key}': {
+            parameters: [path('key', 'Cache key')],
+            delete: { summary: 'Purge one cached result', responses: { '200': ok('PurgeResponse'), ...errors } },
+        },
+    },
+    components: { schemas },
+};
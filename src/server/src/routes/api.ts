@@ -1,53 +1,170 @@
-import { Router, Response } from 'express';
-import { transcribeVideo, generateTimecodedCaptions, generateGuide, rewriteText, generateSummary } from '../services/gemini';
+import { Router } from 'express';
+import type { FramesRequest } from '@screenguide/shared';
+import { transcribeVideo, generateTimecodedCaptions, generateGuide, streamGuide, rewriteText, generateSummary } from '../services/llm';
+import { mediaUpload, registerMedia, getMedia, deleteMedia } from '../services/media';
+import { extractFrame, extractWaveform, clampToMedia, FrameFormat, FrameOptions, FRAME_MIME_TYPES } from '../services/ffmpeg';
+import { Timecode } from '@screenguide/shared/timecode';
+import { AppError, toAppError } from '../services/errors';
+import { handleError, openEventStream, abortOnClose } from '../utils/http';
+import { validate } from '../utils/validate';
 
 const router = Router();
 
-const handleError = (res: Response, error: any, defaultMessage: string) => {
-    console.error(`Error in ${defaultMessage}:`, error);
-    const message = error instanceof Error ? error.message : defaultMessage;
-    res.status(500).json({ error: message });
-}
+router.post('/media', validate({ response: 'MediaInfo' }), (req, res) => {
+    mediaUpload(req, res, async (uploadError) => {
+        if (uploadError) return handleError(res, uploadError, 'Failed to upload media');
+        if (!req.file) return handleError(res, new AppError('invalid_request', "No media file provided in the 'media' field."), 'Failed to upload media');
+        try {
+            const media = await registerMedia(req.file, Number(req.body.duration));
+            res.status(201).json({ mediaId: media.id, mimeType: media.mimeType, size: media.size, duration: media.duration });
+        } catch (error) {
+            handleError(res, error, 'Failed to upload media');
+        }
+    });
+});
+
+router.get('/media/:id', validate({ response: 'MediaInfo' }), async (req, res) => {
+    try {
+        const media = await getMedia(req.params.id);
+        res.json({ mediaId: media.id, mimeType: media.mimeType, size: media.size, duration: media.duration, originalName: media.originalName, createdAt: media.createdAt });
+    } catch (error) {
+        handleError(res, error, 'Failed to fetch media');
+    }
+});
 
-router.post('/transcribe', async (req, res) => {
+router.get('/media/:id/content', async (req, res) => {
     try {
-        const result = await transcribeVideo(req.body);
+        const media = await getMedia(req.params.id);
+        res.type(media.mimeType).sendFile(media.path);
+    } catch (error) {
+        handleError(res, error, 'Failed to stream media');
+    }
+});
+
+const frameOptions = (source: Record<string, unknown>): FrameOptions => {
+    const format = String(source.format || 'png') as FrameFormat;
+    if (!FRAME_MIME_TYPES[format]) throw new AppError('invalid_request', `Unsupported frame format: ${format}`);
+    const number = (value: unknown) => (value === undefined || value === '' ? undefined : Number(value) || undefined);
+    return { format, width: number(source.width), height: number(source.height), quality: number(source.quality) };
+};
+
+router.get('/media/:id/frame', async (req, res) => {
+    try {
+        const media = await getMedia(req.params.id);
+        const time = Timecode.parse(req.query.time);
+        const options = frameOptions(req.query);
+        const image = await extractFrame(media.path, clampToMedia(time, media.duration), options);
+        res.type(FRAME_MIME_TYPES[options.format!]).send(image);
+    } catch (error) {
+        handleError(res, error, 'Failed to extract frame');
+    }
+});
+
+// Frames are extracted one after another so a long list cannot start dozens of ffmpeg processes at once.
+router.post('/media/:id/frames', validate({ body: 'FramesRequest', response: 'FramesResponse' }), async (req, res) => {
+    try {
+        const media = await getMedia(req.params.id);
+        const options = frameOptions(req.body);
+        const { timecodes }: FramesRequest = req.body;
+        const frames = [];
+        for (const timecode of timecodes) {
+            const time = Timecode.tryParse(timecode);
+            if (!time) {
+                frames.push({ timecode, error: `Invalid timecode: ${timecode}` });
+                continue;
+            }
+            try {
+                const image = await extractFrame(media.path, clampToMedia(time, media.duration), options);
+                frames.push({ timecode, mimeType: FRAME_MIME_TYPES[options.format!], data: image.toString('base64') });
+            } catch (error) {
+                frames.push({ timecode, error: error instanceof Error ? error.message : 'Frame extraction failed' });
+            }
+        }
+        res.json({ frames });
+    } catch (error) {
+        handleError(res, error, 'Failed to extract frames');
+    }
+});
+
+// Recordings without an audio track have no waveform; the request fails and the client draws the timeline without one.
+router.get('/media/:id/waveform', validate({ response: 'Waveform' }), async (req, res) => {
+    try {
+        const media = await getMedia(req.params.id);
+        const peaksPerSecond = Math.min(200, Math.max(1, Math.round(Number(req.query.peaksPerSecond) || 50)));
+        res.json({ peaksPerSecond, peaks: await extractWaveform(media.path, peaksPerSecond) });
+    } catch (error) {
+        handleError(res, error, 'Failed to extract waveform');
+    }
+});
+
+router.delete('/media/:id', async (req, res) => {
+    try {
+        await deleteMedia(req.params.id);
+        res.status(204).end();
+    } catch (error) {
+        handleError(res, error, 'Failed to delete media');
+    }
+});
+
+router.post('/transcribe', validate({ body: 'AnalysisRequest', response: 'Transcript' }), async (req, res) => {
+    try {
+        const result = await transcribeVideo(req.body, abortOnClose(res));
         res.json(result);
     } catch (error) {
         handleError(res, error, 'Failed to transcribe video');
     }
 });
 
-router.post('/captions', async (req, res) => {
+router.post('/captions', validate({ body: 'AnalysisRequest', response: 'Captions' }), async (req, res) => {
     try {
-        const result = await generateTimecodedCaptions(req.body);
+        const result = await generateTimecodedCaptions(req.body, abortOnClose(res));
         res.json(result);
     } catch (error) {
         handleError(res, error, 'Failed to generate captions');
     }
 });
 
-router.post('/generate-guide', async (req, res) => {
+router.post('/generate-guide', validate({ body: 'GuideRequest', response: 'GuideResponse' }), async (req, res) => {
     try {
-        const result = await generateGuide(req.body);
+        const result = await generateGuide(req.body, abortOnClose(res));
         res.json({ content: result });
     } catch (error) {
         handleError(res, error, 'Failed to generate guide');
     }
 });
 
-router.post('/rewrite', async (req, res) => {
+// Streams the guide as `chunk` events followed by `done`. Closing the connection aborts the model request.
+router.post('/generate-guide/stream', validate({ body: 'GuideRequest' }), async (req, res) => {
+    const signal = abortOnClose(res);
+    const send = openEventStream(res);
+    try {
+        for await (const text of streamGuide(req.body, signal)) {
+            if (signal.aborted) break;
+            send({ text }, 'chunk');
+        }
+        if (!signal.aborted) send({}, 'done');
+    } catch (error) {
+        if (!signal.aborted) {
+            console.error('Failed to stream guide:', error);
+            send(toAppError(error, 'Failed to stream guide').toJSON(), 'error');
+        }
+    } finally {
+        res.end();
+    }
+});
+
+router.post('/rewrite', validate({ body: 'RewriteRequest', response: 'RewriteResponse' }), async (req, res) => {
     try {
-        const result = await rewriteText(req.body);
+        const result = await rewriteText(req.body, abortOnClose(res));
         res.json({ rewrittenText: result });
     } catch (error) {
         handleError(res, error, 'Failed to rewrite text');
     }
 });
 
-router.post('/summarize', async (req, res) => {
+router.post('/summarize', validate({ body: 'SummaryRequest', response: 'SummaryResponse' }), async (req, res) => {
     try {
-        const result = await generateSummary(req.body);
+        const result = await generateSummary(req.body, abortOnClose(res));
         res.json({ summary: result });
     } catch (error) {
         handleError(res, error, 'Failed to generate summary');
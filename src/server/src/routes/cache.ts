@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { listCache, purgeCache } from '../services/cache';
+import { AppError } from '../services/errors';
+import { handleError } from '../utils/http';
+import { validate } from '../utils/validate';
+
+const router = Router();
+
+const filters = (query: Record<string, unknown>) => ({
+    mediaId: typeof query.mediaId === 'string' ? query.mediaId : undefined,
+    operation: typeof query.operation === 'string' ? query.operation : undefined,
+});
+
+router.get('/', validate({ response: 'CacheEntries' }), async (req, res) => {
+    try {
+        res.json(await listCache(filters(req.query)));
+    } catch (error) {
+        handleError(res, error, 'Failed to list cache entries');
+    }
+});
+
+// Purging everything takes an explicit `all=true`, so a request that lost its filters cannot empty the cache by mistake.
+router.delete('/', validate({ response: 'PurgeResponse' }), async (req, res) => {
+    try {
+        const { mediaId, operation } = filters(req.query);
+        if (!mediaId && !operation && req.query.all !== 'true') throw new AppError('invalid_request', 'Pass mediaId or operation to purge part of the cache, or all=true to purge all of it.');
+        res.json({ purged: await purgeCache({ mediaId, operation }) });
+    } catch (error) {
+        handleError(res, error, 'Failed to purge cache');
+    }
+});
+
+router.delete('/:key', validate({ response: 'PurgeResponse' }), async (req, res) => {
+    try {
+        res.json({ purged: await purgeCache({ key: req.params.key }) });
+    } catch (error) {
+        handleError(res, error, 'Failed to purge cache entry');
+    }
+});
+
+export default router;
@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import { enqueueJob, getJob, listJobs, cancelJob, subscribeToJob, JobView } from '../services/jobs';
+import { handleError, openEventStream } from '../utils/http';
+import { validate } from '../utils/validate';
+import { subscribeWithSnapshot, SnapshotSubscription } from '../utils/events';
+
+const router = Router();
+
+router.post('/', validate({ body: 'JobRequest', response: 'Job' }), async (req, res) => {
+    try {
+        const { type, params } = req.body;
+        res.status(202).json(await enqueueJob(type, params));
+    } catch (error) {
+        handleError(res, error, 'Failed to queue job');
+    }
+});
+
+router.get('/', validate({ response: 'Jobs' }), async (req, res) => {
+    try {
+        const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : undefined;
+        res.json(await listJobs({ projectId, active: req.query.active === 'true' }));
+    } catch (error) {
+        handleError(res, error, 'Failed to list jobs');
+    }
+});
+
+router.get('/:id', validate({ response: 'Job' }), async (req, res) => {
+    try {
+        res.json(await getJob(req.params.id));
+    } catch (error) {
+        handleError(res, error, 'Failed to fetch job');
+    }
+});
+
+router.post('/:id/cancel', validate({ response: 'Job' }), async (req, res) => {
+    try {
+        res.json(await cancelJob(req.params.id));
+    } catch (error) {
+        handleError(res, error, 'Failed to cancel job');
+    }
+});
+
+router.get('/:id/events', async (req, res) => {
+    const { id } = req.params;
+    let gone = false;
+    let close = () => { gone = true; };
+    req.on('close', () => close());
+
+    let subscription: SnapshotSubscription<JobView>;
+    try {
+        // Subscribing first means a job that finishes while it is being read still sends its final update.
+        subscription = await subscribeWithSnapshot(() => getJob(id), listener => subscribeToJob(id, listener));
+    } catch (error) {
+        return handleError(res, error, 'Failed to fetch job');
+    }
+    const { snapshot, follow, unsubscribe } = subscription;
+    if (gone) return unsubscribe();
+
+    const write = openEventStream(res);
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+    let closed = false;
+    close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        res.end();
+    };
+    const send = (update: JobView) => {
+        if (closed) return;
+        write(update);
+        if (update.status === 'done' || update.status === 'failed' || update.status === 'cancelled') close();
+    };
+    send(snapshot);
+    // Updates published before the snapshot was read are already part of it.
+    follow(update => update.updatedAt >= snapshot.updatedAt && send(update));
+});
+
+export default router;
@@ -0,0 +1,112 @@
+import { Router } from 'express';
+import { listProjects, getProject, createProject, updateProject, deleteProject, addRecording, deleteRecording, replaceTranscript, replaceCaptions, replaceSpeakers, replaceGlossary, saveDocument } from '../services/projects';
+import { handleError } from '../utils/http';
+import { validate } from '../utils/validate';
+
+const router = Router();
+
+router.get('/', validate({ response: 'ProjectSummaries' }), async (_req, res) => {
+    try {
+        res.json(await listProjects());
+    } catch (error) {
+        handleError(res, error, 'Failed to list projects');
+    }
+});
+
+router.post('/', validate({ body: 'ProjectFields', response: 'ProjectSummary' }), async (req, res) => {
+    try {
+        res.status(201).json(await createProject(req.body));
+    } catch (error) {
+        handleError(res, error, 'Failed to create project');
+    }
+});
+
+router.get('/:id', validate({ response: 'Project' }), async (req, res) => {
+    try {
+        res.json(await getProject(req.params.id));
+    } catch (error) {
+        handleError(res, error, 'Failed to load project');
+    }
+});
+
+router.patch('/:id', validate({ body: 'ProjectFields', response: 'ProjectSummary' }), async (req, res) => {
+    try {
+        const { name, description, userPrompt, outputFormat } = req.body;
+        res.json(await updateProject(req.params.id, { name, description, userPrompt, outputFormat }));
+    } catch (error) {
+        handleError(res, error, 'Failed to update project');
+    }
+});
+
+router.delete('/:id', async (req, res) => {
+    try {
+        await deleteProject(req.params.id);
+        res.status(204).end();
+    } catch (error) {
+        handleError(res, error, 'Failed to delete project');
+    }
+});
+
+router.post('/:id/recordings', validate({ body: 'RecordingFields', response: 'Recording' }), async (req, res) => {
+    try {
+        res.status(201).json(await addRecording(req.params.id, req.body));
+    } catch (error) {
+        handleError(res, error, 'Failed to add recording');
+    }
+});
+
+router.delete('/:id/recordings/:recordingId', async (req, res) => {
+    try {
+        await deleteRecording(req.params.id, req.params.recordingId);
+        res.status(204).end();
+    } catch (error) {
+        handleError(res, error, 'Failed to delete recording');
+    }
+});
+
+router.put('/:id/recordings/:recordingId/transcript', validate({ body: 'TranscriptUpdate' }), async (req, res) => {
+    try {
+        await replaceTranscript(req.params.id, req.params.recordingId, req.body.transcript);
+        res.status(204).end();
+    } catch (error) {
+        handleError(res, error, 'Failed to save transcript');
+    }
+});
+
+router.put('/:id/recordings/:recordingId/captions', validate({ body: 'CaptionsUpdate' }), async (req, res) => {
+    try {
+        await replaceCaptions(req.params.id, req.params.recordingId, req.body.captions);
+        res.status(204).end();
+    } catch (error) {
+        handleError(res, error, 'Failed to save captions');
+    }
+});
+
+router.put('/:id/recordings/:recordingId/speakers', validate({ body: 'SpeakersUpdate' }), async (req, res) => {
+    try {
+        await replaceSpeakers(req.params.id, req.params.recordingId, req.body.speakers);
+        res.status(204).end();
+    } catch (error) {
+        handleError(res, error, 'Failed to save speakers');
+    }
+});
+
+router.put('/:id/glossary', validate({ body: 'GlossaryUpdate' }), async (req, res) => {
+    try {
+        await replaceGlossary(req.params.id, req.body.glossary);
+        res.status(204).end();
+    } catch (error) {
+        handleError(res, error, 'Failed to save glossary');
+    }
+});
+
+router.put('/:id/documents/:format', validate({ params: { format: 'OutputFormat' }, body: 'DocumentRequest', response: 'GeneratedDocument' }), async (req, res) => {
+    try {
+        const { content, summary, recordingId } = req.body;
+        res.json(await saveDocument(req.params.id, { format: req.params.format, content, summary, recordingId }));
+    } catch (error) {
+        handleError(res, error, 'Failed to save document');
+    }
+});
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import apiRouter from './api';
+import projectsRouter from './projects';
+import jobsRouter from './jobs';
+import cacheRouter from './cache';
+import { openApiDocument } from '../openapi';
+
+const router = Router();
+
+router.get('/openapi.json', (_req, res) => {
+    res.json(openApiDocument);
+});
+
+router.use('/projects', projectsRouter);
+router.use('/jobs', jobsRouter);
+router.use('/cache', cacheRouter);
+router.use('/', apiRouter);
+
+export default router;
@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+import { prisma } from './db';
+import { getMediaHash } from './media';
+import type { LlmOperation, LlmProvider } from './llm';
+
+export interface CacheScope {
+    operation: LlmOperation;
+    provider: LlmProvider;
+    mediaId: string;
+    /** Every prompt input besides the media that changes the answer: description, user prompt, format, transcript... */
+    params: Record<string, unknown>;
+}
+
+async function cacheKey({ operation, provider, mediaId, params }: CacheScope) {
+    const mediaHash = await getMediaHash(mediaId);
+    const model = provider.modelFor(operation);
+    const keyParams = JSON.stringify(params, Object.keys(params).sort());
+    const key = crypto.createHash('sha256').update(JSON.stringify([operation, mediaHash, provider.name, model, keyParams])).digest('hex');
+    return { key, mediaHash, model, keyParams };
+}
+
+export async function readCache<T>(scope: CacheScope): Promise<T | undefined> {
+    const { key } = await cacheKey(scope);
+    const entry = await prisma.cacheEntry.findUnique({ where: { key } });
+    if (!entry) return undefined;
+    await prisma.cacheEntry.update({ where: { key }, data: { hits: { increment: 1 }, lastHitAt: new Date() } });
+    return JSON.parse(entry.result) as T;
+}
+
+export async function writeCache(scope: CacheScope, result: unknown): Promise<void> {
+    const { key, mediaHash, model, keyParams } = await cacheKey(scope);
+    const data = { operation: scope.operation, mediaHash, provider: scope.provider.name, model, params: keyParams, result: JSON.stringify(result) };
+    await prisma.cacheEntry.upsert({ where: { key }, create: { key, ...data }, update: { ...data, hits: 0, lastHitAt: null } });
+}
+
+/**
+ * Returns the cached result for this scope or computes and stores it. `bypass` skips the lookup
+ * but still stores the fresh result. Results that `isCacheable` rejects (e.g. empty lists) are not stored.
+ */
+export async function cached<T>(scope: CacheScope, bypass: boolean | undefined, compute: () => Promise<T>, isCacheable: (result: T) => boolean = () => true): Promise<T> {
+    if (!bypass) {
+        const hit = await readCache<T>(scope);
+        if (hit !== undefined) return hit;
+    }
+    const result = await compute();
+    if (isCacheable(result)) await writeCache(scope, result);
+    return result;
+}
+
+export async function listCache({ mediaId, operation }: { mediaId?: string; operation?: string }) {
+    const mediaHash = mediaId ? await getMediaHash(mediaId) : undefined;
+    return prisma.cacheEntry.findMany({
+        where: { ...(mediaHash && { mediaHash }), ...(operation && { operation }) },
+        select: { key: true, operation: true, mediaHash: true, provider: true, model: true, params: true, hits: true, createdAt: true, lastHitAt: true },
+        orderBy: { createdAt: 'desc' },
+    });
+}
+
+export async function purgeCache({ key, mediaId, operation }: { key?: string; mediaId?: string; operation?: string }): Promise<number> {
+    const mediaHash = mediaId ? await getMediaHash(mediaId) : undefined;
+    const { count } = await prisma.cacheEntry.deleteMany({ where: { ...(key && { key }), ...(mediaHash && { mediaHash }), ...(operation && { operation }) } });
+    return count;
+}
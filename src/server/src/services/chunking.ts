@@ -0,0 +1,149 @@
+import { getMedia, createDerivedMedia, deleteMedia } from './media';
+import { probeDuration, cutWindow } from './ffmpeg';
+import { Timecode } from '@screenguide/shared/timecode';
+import { transcribeVideo, generateTimecodedCaptions, BaseParams, Caption, DiarizedSegment } from './llm';
+import { AppError } from './errors';
+
+export interface ChunkOptions {
+    /** Length of each window in seconds. */
+    windowSeconds?: number;
+    /** How much consecutive windows overlap, in seconds. */
+    overlapSeconds?: number;
+}
+
+interface Window { index: number; start: number; end: number; }
+
+const DEFAULT_WINDOW_SECONDS = Number(process.env.CHUNK_WINDOW_SECONDS) || 600;
+const DEFAULT_OVERLAP_SECONDS = Number(process.env.CHUNK_OVERLAP_SECONDS) || 30;
+/** Recordings longer than this are chunked automatically. */
+export const CHUNK_THRESHOLD_SECONDS = Number(process.env.CHUNK_THRESHOLD_SECONDS) || 1800;
+
+type Timed = { startTime: string; endTime: string };
+type Progress = (completed: number, total: number) => Promise<void> | void;
+
+export async function mediaDuration(mediaId: string): Promise<number> {
+    const media = await getMedia(mediaId);
+    return media.duration ?? probeDuration(media.path);
+}
+
+// `chunked: true` forces windowed processing, `false` disables it; otherwise long recordings are chunked automatically.
+export async function shouldChunk(params: { mediaId: string; chunked?: boolean }): Promise<boolean> {
+    if (typeof params.chunked === 'boolean') return params.chunked;
+    return (await mediaDuration(params.mediaId).catch(() => 0)) > CHUNK_THRESHOLD_SECONDS;
+}
+
+export function planWindows(duration: number, { windowSeconds = DEFAULT_WINDOW_SECONDS, overlapSeconds = DEFAULT_OVERLAP_SECONDS }: ChunkOptions = {}): Window[] {
+    if (overlapSeconds >= windowSeconds) throw new AppError('invalid_request', 'The chunk overlap must be shorter than the chunk window.');
+    const windows: Window[] = [];
+    for (let start = 0; start < duration; start += windowSeconds - overlapSeconds) {
+        const end = Math.min(start + windowSeconds, duration);
+        windows.push({ index: windows.length, start, end });
+        if (end >= duration) break;
+    }
+    return windows;
+}
+
+const secondsOf = (timecode: string) => Timecode.parseOrZero(timecode).seconds;
+
+const shiftTimes = <T extends Timed>(row: T, offset: number): T =>
+    ({ ...row, startTime: Timecode.parseOrZero(row.startTime).plus(offset).toString(), endTime: Timecode.parseOrZero(row.endTime).plus(offset).toString() });
+
+// Word timings are relative to the window as well, so they move with their segment.
+const shift = <T extends Timed>(rows: T[], offset: number): T[] => rows.map(row => {
+    const { words } = row as { words?: Timed[] };
+    return words ? { ...shiftTimes(row, offset), words: words.map(word => shiftTimes(word, offset)) } : shiftTimes(row, offset);
+});
+
+// Each window is cut out of the recording, processed as its own media item and removed again.
+async function processWindows<T extends Timed>(params: BaseParams, options: ChunkOptions, run: (params: BaseParams, signal?: AbortSignal) => Promise<T[]>, onProgress?: Progress, signal?: AbortSignal): Promise<{ window: Window; rows: T[] }[]> {
+    const source = await getMedia(params.mediaId);
+    const windows = planWindows(await mediaDuration(params.mediaId), options);
+    const results: { window: Window; rows: T[] }[] = [];
+    await onProgress?.(0, windows.length);
+    for (const window of windows) {
+        signal?.throwIfAborted();
+        const part = await createDerivedMedia(
+            outPath => cutWindow(source.path, window.start, window.end - window.start, outPath, signal),
+            { mimeType: 'video/mp4', originalName: `${source.originalName} [${Timecode.fromSeconds(window.start)}-${Timecode.fromSeconds(window.end)}]`, duration: window.end - window.start },
+        );
+        try {
+            const rows = await run({ ...params, mediaId: part.id }, signal);
+            results.push({ window, rows: shift(rows, window.start) });
+        } finally {
+            await deleteMedia(part.id);
+        }
+        await onProgress?.(window.index + 1, windows.length);
+    }
+    return results;
+}
+
+/**
+ * Joins per-window results. Rows inside an overlap are taken from the earlier window up to the middle of the
+ * overlap and from the later window after it, so each stretch of the recording is covered exactly once.
+ */
+function stitch<T extends Timed>(parts: { window: Window; rows: T[] }[]): T[] {
+    return parts.flatMap(({ window, rows }, i) => {
+        const previous = parts[i - 1]?.window;
+        const next = parts[i + 1]?.window;
+        const from = previous ? (window.start + previous.end) / 2 : -Infinity;
+        const to = next ? (next.start + window.end) / 2 : Infinity;
+        return rows.filter(row => secondsOf(row.startTime) >= from && secondsOf(row.startTime) < to);
+    });
+}
+
+const overlapBetween = (a: Timed, b: Timed) =>
+    Math.max(0, Math.min(secondsOf(a.endTime), secondsOf(b.endTime)) - Math.max(secondsOf(a.startTime), secondsOf(b.startTime)));
+
+/**
+ * Renames each window's speaker labels to the labels already in use. Labels are matched by how long they
+ * talk at the same time in the overlap with the previous window; labels without a match get a new name.
+ */
+function alignSpeakers(parts: { window: Window; rows: DiarizedSegment[] }[]): void {
+    const known = new Set(parts[0]?.rows.map(row => row.speaker));
+    for (let i = 1; i < parts.length; i++) {
+        const previous = parts[i - 1];
+        const current = parts[i];
+        const shared = { start: current.window.start, end: previous.window.end };
+        const inShared = (row: DiarizedSegment) => secondsOf(row.endTime) > shared.start && secondsOf(row.startTime) < shared.end;
+
+        const scores = new Map<string, Map<string, number>>();
+        for (const a of current.rows.filter(inShared)) {
+            for (const b of previous.rows.filter(inShared)) {
+                const overlap = overlapBetween(a, b);
+                if (overlap === 0) continue;
+                const row = scores.get(a.speaker) ?? new Map<string, number>();
+                row.set(b.speaker, (row.get(b.speaker) ?? 0) + overlap);
+                scores.set(a.speaker, row);
+            }
+        }
+
+        const pairs = [...scores].flatMap(([local, row]) => [...row].map(([global, score]) => ({ local, global, score }))).sort((a, b) => b.score - a.score);
+        const mapping = new Map<string, string>();
+        const taken = new Set<string>();
+        for (const { local, global } of pairs) {
+            if (mapping.has(local) || taken.has(global)) continue;
+            mapping.set(local, global);
+            taken.add(global);
+        }
+        for (const local of new Set(current.rows.map(row => row.speaker))) {
+            if (mapping.has(local)) continue;
+            let name = local;
+            for (let n = known.size + 1; known.has(name) || taken.has(name); n++) name = `Speaker ${n}`;
+            mapping.set(local, name);
+            taken.add(name);
+        }
+
+        current.rows = current.rows.map(row => ({ ...row, speaker: mapping.get(row.speaker)! }));
+        current.rows.forEach(row => known.add(row.speaker));
+    }
+}
+
+export async function transcribeChunked(params: BaseParams, options: ChunkOptions = {}, onProgress?: Progress, signal?: AbortSignal): Promise<DiarizedSegment[]> {
+    const parts = await processWindows(params, options, transcribeVideo, onProgress, signal);
+    alignSpeakers(parts);
+    return stitch(parts);
+}
+
+export async function captionChunked(params: BaseParams, options: ChunkOptions = {}, onProgress?: Progress, signal?: AbortSignal): Promise<Caption[]> {
+    return stitch(await processWindows(params, options, generateTimecodedCaptions, onProgress, signal));
+}
@@ -0,0 +1,5 @@
+import { PrismaClient } from '@prisma/client';
+
+export const prisma = new PrismaClient({
+    datasources: { db: { url: process.env.DATABASE_URL || 'file:./screenguide.db' } },
+});
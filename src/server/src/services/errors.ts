@@ -0,0 +1,59 @@
+import type { ApiError, ErrorCode } from '@screenguide/shared';
+
+export type { ErrorCode };
+
+const STATUS: Record<ErrorCode, number> = {
+    invalid_request: 400,
+    not_found: 404,
+    payload_too_large: 413,
+    unsupported_media_type: 415,
+    safety_blocked: 422,
+    rate_limited: 429,
+    internal: 500,
+    malformed_output: 502,
+    provider_unavailable: 503,
+    model_timeout: 504,
+};
+
+// Failures that may go away on their own; the rest need a different request.
+const RETRYABLE = new Set<ErrorCode>(['rate_limited', 'internal', 'malformed_output', 'provider_unavailable', 'model_timeout']);
+
+export class AppError extends Error {
+    constructor(public code: ErrorCode, message: string, public retryAfter?: number) {
+        super(message);
+        this.name = 'AppError';
+    }
+
+    get status(): number { return STATUS[this.code]; }
+    get retryable(): boolean { return RETRYABLE.has(this.code); }
+
+    toJSON(): ApiError {
+        return { error: this.message, code: this.code, retryable: this.retryable, ...(this.retryAfter !== undefined && { retryAfter: this.retryAfter }) };
+    }
+}
+
+/** Classifies an HTTP error returned by a model provider. */
+export function providerError(status: number, message: string, retryAfter?: number): AppError {
+    if (status === 429) return new AppError('rate_limited', message, retryAfter);
+    if (status === 408 || status === 504) return new AppError('model_timeout', message);
+    if (status === 413) return new AppError('payload_too_large', message);
+    if (status === 401 || status === 403 || status >= 500) return new AppError('provider_unavailable', message, retryAfter);
+    return new AppError('internal', message);
+}
+
+const NETWORK_ERRORS = new Set(['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'ETIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT']);
+
+/** Maps anything thrown by a route, a provider, Prisma, multer, the JSON body parser or `Timecode.parse` onto the error taxonomy. */
+export function toAppError(error: unknown, defaultMessage: string): AppError {
+    if (error instanceof AppError) return error;
+    const e = error as { type?: string; code?: string; name?: string; cause?: { code?: string } } | undefined;
+    const message = error instanceof Error ? error.message : defaultMessage;
+    if (e?.type === 'entity.too.large') return new AppError('payload_too_large', 'The request body is too large.');
+    if (e?.type === 'entity.parse.failed') return new AppError('invalid_request', 'The request body is not valid JSON.');
+    if (e?.code === 'LIMIT_FILE_SIZE') return new AppError('payload_too_large', 'The recording is larger than the upload limit.');
+    if (e?.code === 'P2025') return new AppError('not_found', message); // Prisma: the record to update or delete does not exist.
+    if (e?.name === 'TimecodeError') return new AppError('invalid_request', message);
+    if (e?.name === 'TimeoutError') return new AppError('model_timeout', message);
+    if (NETWORK_ERRORS.has(e?.cause?.code || e?.code || '')) return new AppError('provider_unavailable', message);
+    return new AppError('internal', message);
+}
@@ -0,0 +1,102 @@
+import { spawn } from 'child_process';
+import { Timecode } from '@screenguide/shared/timecode';
+
+const FFMPEG = process.env.FFMPEG_PATH || 'ffmpeg';
+const FFPROBE = process.env.FFPROBE_PATH || 'ffprobe';
+
+// Aborting `signal` kills the process and rejects with the AbortError, so a cancelled job stops mid-encode.
+function run(command: string, args: string[], signal?: AbortSignal): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'], signal });
+        const stdout: Buffer[] = [];
+        let stderr = '';
+        child.stdout.on('data', chunk => stdout.push(chunk));
+        child.stderr.on('data', chunk => { stderr = (stderr + chunk).slice(-4000); });
+        child.on('error', error => reject(error.name === 'AbortError' ? error : new Error(`Could not run ${command}: ${error.message}. Install ffmpeg or set FFMPEG_PATH/FFPROBE_PATH.`)));
+        child.on('close', code => code === 0 ? resolve(Buffer.concat(stdout)) : reject(signal?.aborted ? signal.reason : new Error(`${command} exited with code ${code}: ${stderr.trim()}`)));
+    });
+}
+
+/** Length of a media file in seconds. */
+export async function probeDuration(filePath: string): Promise<number> {
+    const output = await run(FFPROBE, ['-v', 'error', '-show_entries', 'format=duration', '-of', 'default=noprint_wrappers=1:nokey=1', filePath]);
+    const duration = parseFloat(output.toString());
+    if (!Number.isFinite(duration)) throw new Error(`ffprobe could not read the duration of ${filePath}.`);
+    return duration;
+}
+
+/**
+ * Writes `length` seconds starting at `start` to `outPath` as MP4. The window is re-encoded rather than
+ * stream-copied so it starts exactly at `start` instead of at the previous keyframe, keeping offsets exact.
+ */
+export async function cutWindow(filePath: string, start: number, length: number, outPath: string, signal?: AbortSignal): Promise<void> {
+    await run(FFMPEG, ['-y', '-v', 'error', '-ss', start.toFixed(3), '-i', filePath, '-t', length.toFixed(3), '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '28', '-c:a', 'aac', '-movflags', '+faststart', outPath], signal);
+}
+
+export type FrameFormat = 'png' | 'jpeg' | 'webp';
+
+export interface FrameOptions {
+    format?: FrameFormat;
+    /** Target width in pixels; height follows the aspect ratio unless also given. */
+    width?: number;
+    height?: number;
+    /** 1-100, ignored for PNG. */
+    quality?: number;
+}
+
+export const FRAME_MIME_TYPES: Record<FrameFormat, string> = { png: 'image/png', jpeg: 'image/jpeg', webp: 'image/webp' };
+
+// A seek to the very end of the file yields no frame, so timecodes are kept just inside the recording.
+export const clampToMedia = (time: Timecode, duration?: number) => duration ? time.clamp(Timecode.ZERO, Timecode.fromSeconds(duration).minus(0.05)) : time;
+
+/** Grabs the frame at `time` and returns it as an encoded image. */
+export async function extractFrame(filePath: string, time: Timecode, { format = 'png', width, height, quality = 85 }: FrameOptions = {}): Promise<Buffer> {
+    const q = Math.min(100, Math.max(1, Math.round(quality)));
+    const codecArgs: Record<FrameFormat, string[]> = {
+        png: ['-c:v', 'png'],
+        // mjpeg's qscale runs from 2 (best) to 31 (worst).
+        jpeg: ['-c:v', 'mjpeg', '-q:v', String(Math.round(31 - (q / 100) * 29))],
+        webp: ['-c:v', 'libwebp', '-quality', String(q)],
+    };
+    const scale = width || height ? ['-vf', `scale=${width ? Math.round(width) : -2}:${height ? Math.round(height) : -2}`] : [];
+    // Seeking before -i is fast; ffmpeg still decodes from the previous keyframe so the frame is exact.
+    return run(FFMPEG, ['-v', 'error', '-ss', time.seconds.toFixed(3), '-i', filePath, '-frames:v', '1', ...scale, ...codecArgs[format], '-f', 'image2pipe', '-']);
+}
+
+const WAVEFORM_SAMPLE_RATE = 8000;
+
+/**
+ * Peak amplitude (0-1) of the first audio track for every 1/`peaksPerSecond` of a second. The audio is decoded to
+ * 8 kHz mono and reduced as it streams in, so long recordings are never held in memory as raw samples.
+ */
+export function extractWaveform(filePath: string, peaksPerSecond: number): Promise<number[]> {
+    const samplesPerPeak = Math.max(1, Math.round(WAVEFORM_SAMPLE_RATE / peaksPerSecond));
+    return new Promise((resolve, reject) => {
+        const child = spawn(FFMPEG, ['-v', 'error', '-i', filePath, '-map', '0:a:0', '-ac', '1', '-ar', String(WAVEFORM_SAMPLE_RATE), '-f', 's16le', '-'], { stdio: ['ignore', 'pipe', 'pipe'] });
+        const peaks: number[] = [];
+        let peak = 0;
+        let count = 0;
+        let leftover: Buffer | null = null;
+        let stderr = '';
+        child.stdout.on('data', (chunk: Buffer) => {
+            const data = leftover ? Buffer.concat([leftover, chunk]) : chunk;
+            const usable = data.length - (data.length % 2);
+            for (let offset = 0; offset < usable; offset += 2) {
+                peak = Math.max(peak, Math.abs(data.readInt16LE(offset)));
+                if (++count === samplesPerPeak) {
+                    peaks.push(Math.round((peak / 32768) * 1000) / 1000);
+                    peak = 0;
+                    count = 0;
+                }
+            }
+            leftover = usable < data.length ? data.subarray(usable) : null;
+        });
+        child.stderr.on('data', chunk => { stderr = (stderr + chunk).slice(-4000); });
+        child.on('error', error => reject(new Error(`Could not run ${FFMPEG}: ${error.message}. Install ffmpeg or set FFMPEG_PATH/FFPROBE_PATH.`)));
+        child.on('close', code => {
+            if (code !== 0) return reject(new Error(`${FFMPEG} exited with code ${code}: ${stderr.trim()}`));
+            if (count > 0) peaks.push(Math.round((peak / 32768) * 1000) / 1000);
+            resolve(peaks);
+        });
+    });
+}
@@ -1,32 +1,146 @@
-import { GoogleGenAI, FunctionDeclaration, Type } from '@google/genai';
+import { setTimeout as sleep } from 'timers/promises';
+import { GoogleGenAI, FunctionDeclaration, Type, FileState, Part, createPartFromUri, GenerateContentParameters, GenerateContentResponse } from '@google/genai';
+import { getMedia, onMediaDeleted } from './media';
+import { StructuredOutputError } from './validation';
+import { AppError, providerError } from './errors';
+import { transcriptionPrompt, captionsPrompt, guidePrompt, rewritePrompt, summaryPrompt } from './prompts';
+import type { LlmProvider, LlmOperation, BaseParams, GuideParams, RewriteParams, SummaryParams, Caption, DiarizedSegment } from './llm';
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set.");
+// The client is created on first use so the server can start without credentials when another provider is selected.
+let client: GoogleGenAI | undefined;
+
+function getClient(): GoogleGenAI {
+    if (!client) {
+        if (!process.env.API_KEY) {
+            throw new AppError('provider_unavailable', "API_KEY environment variable not set.");
+        }
+        client = new GoogleGenAI({apiKey: process.env.API_KEY});
+    }
+    return client;
 }
-const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
 
-interface Caption { startTime: string; endTime: string; text: string; }
-interface DiarizedSegment { speaker: string; startTime: string; endTime: string; text: string; }
-interface BaseParams { videoBase64: string; mimeType: string; description?: string; userPrompt?: string; }
+const MODELS: Record<LlmOperation, string> = {
+    transcribe: 'gemini-2.5-pro',
+    captions: 'gemini-2.5-pro',
+    guide: 'gemini-2.5-pro',
+    rewrite: 'gemini-2.5-flash',
+    summary: 'gemini-2.5-flash',
+};
+
+// Each stored recording is uploaded to the Gemini Files API once and then referenced by URI in every request.
+// Uploads expire after 48 hours, so one is replaced when it has less than an hour left.
+interface UploadedFile { part: Part; name: string; expiresAt: number; }
+const uploadedMedia = new Map<string, Promise<UploadedFile>>();
+const UPLOAD_TTL_MS = 48 * 60 * 60 * 1000;
+const EXPIRY_MARGIN_MS = 60 * 60 * 1000;
+
+// The SDK reports HTTP failures only in the message, e.g. "got status: 429 Too Many Requests. {...}".
+function geminiError(error: unknown): unknown {
+    if (error instanceof AppError || !(error instanceof Error)) return error;
+    const status = Number(error.message.match(/got status: (\d{3})/)?.[1]);
+    if (!status) return error;
+    const retryDelay = error.message.match(/"retryDelay":\s*"(\d+)(?:\.\d+)?s"/)?.[1];
+    return providerError(status, error.message, retryDelay ? Number(retryDelay) : undefined);
+}
+
+const BLOCKED_FINISH_REASONS = new Set<string>(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY']);
+
+function checkBlocked(response: GenerateContentResponse): void {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason) throw new AppError('safety_blocked', `Gemini blocked the prompt (${blockReason}).`);
+    if (finishReason && BLOCKED_FINISH_REASONS.has(finishReason)) throw new AppError('safety_blocked', `Gemini stopped the response (${finishReason}).`);
+}
+
+async function generate(request: GenerateContentParameters): Promise<GenerateContentResponse> {
+    try {
+        const response = await getClient().models.generateContent(request);
+        checkBlocked(response);
+        return response;
+    } catch (error) {
+        throw geminiError(error);
+    }
+}
+
+// Polling stops as soon as `signal` aborts, so a cancelled request does not keep waiting on Gemini.
+async function uploadToGemini(mediaId: string, signal?: AbortSignal): Promise<UploadedFile> {
+    const ai = getClient();
+    const uploadedAt = Date.now();
+    const media = await getMedia(mediaId);
+    try {
+        let file = await ai.files.upload({ file: media.path, config: { mimeType: media.mimeType, displayName: media.originalName, abortSignal: signal } });
+        while (file.state === FileState.PROCESSING) {
+            await sleep(2000, undefined, { signal });
+            file = await ai.files.get({ name: file.name!, config: { abortSignal: signal } });
+        }
+        if (file.state === FileState.FAILED || !file.uri) throw new AppError('unsupported_media_type', `Gemini could not process media ${mediaId}.`);
+        return { part: createPartFromUri(file.uri, media.mimeType), name: file.name!, expiresAt: Date.parse(file.expirationTime || '') || uploadedAt + UPLOAD_TTL_MS };
+    } catch (error) {
+        throw geminiError(error);
+    }
+}
+
+// Entries are only removed if they are still the current one, so a replacement started by a concurrent call survives.
+const forgetUpload = (mediaId: string, upload: Promise<UploadedFile>) => {
+    if (uploadedMedia.get(mediaId) === upload) uploadedMedia.delete(mediaId);
+};
+
+async function mediaPart(mediaId: string, signal?: AbortSignal): Promise<Part> {
+    const cached = uploadedMedia.get(mediaId);
+    if (cached) {
+        const file = await cached;
+        if (Date.now() < file.expiresAt - EXPIRY_MARGIN_MS) return file.part;
+        forgetUpload(mediaId, cached);
+    }
+    let upload = uploadedMedia.get(mediaId);
+    if (!upload) {
+        const started = uploadToGemini(mediaId, signal);
+        started.catch(() => forgetUpload(mediaId, started));
+        uploadedMedia.set(mediaId, started);
+        upload = started;
+    }
+    try {
+        const { part } = await upload;
+        signal?.throwIfAborted();
+        return part;
+    } catch (error) {
+        // An upload shared with a request that was cancelled fails for this one too, so it starts its own.
+        if (error instanceof Error && error.name === 'AbortError' && !signal?.aborted) return mediaPart(mediaId, signal);
+        throw error;
+    }
+}
+
+// Deleted media, such as a chunk window once it is processed, has its uploaded copy deleted too.
+onMediaDeleted(async mediaId => {
+    const upload = uploadedMedia.get(mediaId);
+    if (!upload) return;
+    uploadedMedia.delete(mediaId);
+    try {
+        const { name } = await upload;
+        await getClient().files.delete({ name });
+    } catch (error) {
+        console.warn(`Could not delete the Gemini upload of media ${mediaId}:`, error);
+    }
+});
+
+export async function prepareMedia(mediaId: string, signal?: AbortSignal): Promise<void> {
+    await mediaPart(mediaId, signal);
+}
 
 const setDiarizedTranscriptFunctionDeclaration: FunctionDeclaration = {
     name: 'set_diarized_transcript',
-    description: 'Sets the diarized transcript of the video with speaker labels and timecodes for each segment.',
-    parameters: { type: Type.OBJECT, properties: { transcript: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { speaker: { type: Type.STRING }, startTime: { type: Type.STRING }, endTime: { type: Type.STRING }, text: { type: Type.STRING } }, required: ['speaker', 'startTime', 'endTime', 'text'] } } }, required: ['transcript'] },
+    description: 'Sets the diarized transcript of the video with speaker labels and timecodes for each segment, and optionally for each word.',
+    parameters: { type: Type.OBJECT, properties: { transcript: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { speaker: { type: Type.STRING }, startTime: { type: Type.STRING }, endTime: { type: Type.STRING }, text: { type: Type.STRING }, words: { type: Type.ARRAY, description: 'One entry per whitespace-separated word of text, in order.', items: { type: Type.OBJECT, properties: { text: { type: Type.STRING }, startTime: { type: Type.STRING }, endTime: { type: Type.STRING }, confidence: { type: Type.NUMBER, description: 'How sure you are the word was heard correctly, from 0 to 1.' } }, required: ['text', 'startTime', 'endTime'] } } }, required: ['speaker', 'startTime', 'endTime', 'text'] } } }, required: ['transcript'] },
 };
 
-export async function transcribeVideo({ videoBase64, mimeType, description, userPrompt }: BaseParams): Promise<DiarizedSegment[]> {
-  const model = 'gemini-2.5-pro';
-  let prompt = `Generate a verbatim text transcription of the audio in this video. Identify each speaker, label them consistently (e.g., "Speaker 1"), provide precise start/end timecodes (HH:MM:SS.sss), and use 'set_diarized_transcript' to format your response.`;
-  if (description) prompt += `\n\nContext: ${description}`;
-  if (userPrompt) prompt += `\n\nInstructions: ${userPrompt}`;
-  
-  const response = await ai.models.generateContent({ model, contents: [{ role: 'user', parts: [{text: prompt}, { inlineData: { mimeType, data: videoBase64 } }] }], config: { tools: [{functionDeclarations: [setDiarizedTranscriptFunctionDeclaration]}] } });
+export async function transcribeVideo(params: BaseParams, repair = '', signal?: AbortSignal): Promise<DiarizedSegment[]> {
+  const model = MODELS.transcribe;
+  const response = await generate({ model, contents: [{ role: 'user', parts: [{text: transcriptionPrompt(params) + repair}, await mediaPart(params.mediaId, signal)] }], config: { tools: [{functionDeclarations: [setDiarizedTranscriptFunctionDeclaration]}], abortSignal: signal } });
   const functionCall = response.functionCalls?.[0];
-  if (functionCall?.name === 'set_diarized_transcript' && functionCall.args.transcript) {
+  if (functionCall?.name === 'set_diarized_transcript' && functionCall.args?.transcript) {
     return functionCall.args.transcript as DiarizedSegment[];
   }
-  return [];
+  throw new StructuredOutputError(["The response did not call 'set_diarized_transcript' with a transcript."]);
 }
 
 const setTimecodesFunctionDeclaration: FunctionDeclaration = {
@@ -35,45 +149,55 @@ const setTimecodesFunctionDeclaration: FunctionDeclaration = {
     parameters: { type: Type.OBJECT, properties: { timecodes: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { startTime: { type: Type.STRING }, endTime: { type: Type.STRING }, text: { type: Type.STRING } }, required: ['startTime', 'endTime', 'text'] } } }, required: ['timecodes'] },
 };
 
-export async function generateTimecodedCaptions({ videoBase64, mimeType, description, userPrompt }: BaseParams): Promise<Caption[]> {
-  const model = 'gemini-2.5-pro';
-  let prompt = `For each scene or significant event, generate a caption describing the visual action and any spoken text (in quotes). Provide precise start/end timecodes (HH:MM:SS.sss). Use 'set_timecodes' to format the output.`;
-  if (description) prompt += `\n\nContext: ${description}`;
-  if (userPrompt) prompt += `\n\nInstructions: ${userPrompt}`;
-
-  const response = await ai.models.generateContent({ model, contents: [{ role: 'user', parts: [{text: prompt}, { inlineData: { mimeType, data: videoBase64 } }] }], config: { tools: [{functionDeclarations: [setTimecodesFunctionDeclaration]}] } });
+export async function generateTimecodedCaptions(params: BaseParams, repair = '', signal?: AbortSignal): Promise<Caption[]> {
+  const model = MODELS.captions;
+  const response = await generate({ model, contents: [{ role: 'user', parts: [{text: captionsPrompt(params) + repair}, await mediaPart(params.mediaId, signal)] }], config: { tools: [{functionDeclarations: [setTimecodesFunctionDeclaration]}], abortSignal: signal } });
   const functionCall = response.functionCalls?.[0];
-  if (functionCall?.name === 'set_timecodes' && functionCall.args.timecodes) {
+  if (functionCall?.name === 'set_timecodes' && functionCall.args?.timecodes) {
     return functionCall.args.timecodes as Caption[];
   }
-  return [];
+  throw new StructuredOutputError(["The response did not call 'set_timecodes' with captions."]);
+}
+
+export async function generateGuide(params: GuideParams, signal?: AbortSignal): Promise<string> {
+  const model = MODELS.guide;
+  const response = await generate({ model, contents: [{ role: 'user', parts: [{text: guidePrompt(params)}, await mediaPart(params.mediaId, signal)] }], config: { abortSignal: signal } });
+  return response.text ?? '';
 }
 
-export async function generateGuide({ videoBase64, mimeType, transcript, description, prompt, format }: { videoBase64: string; mimeType: string; transcript: string; description: string; prompt: string; format: string; }) {
-  const model = 'gemini-2.5-pro';
-  const formatInstructions: Record<string, string> = {
-      guide: "A step-by-step guide with numbered lists and image placeholders: `[Image: description at HH:MM:SS.sss]`.",
-      article: "A knowledge base article with headings and paragraphs, using image placeholders.",
-      slides: "A presentation separated by '---', using markdown headers for titles, and image placeholders.",
-      diagram: "A flowchart in Mermaid syntax ('graph TD'). Output ONLY the raw Mermaid code.",
-  };
-  const formatInstruction = formatInstructions[format] || formatInstructions.guide;
-
-  const fullPrompt = `You are ScreenGuide AI. Create a guide from a screen recording. Analyze visuals and audio to create a comprehensive, chronological document.\n\nVideo Description: ${description || 'N/A'}\nAudio Transcription: ${transcript}\nOutput Format: ${formatInstruction}\nUser Instructions: ${prompt || 'N/A'}\n\nGenerate the final content only.`;
-  const response = await ai.models.generateContent({ model, contents: [{ role: 'user', parts: [{text: fullPrompt}, { inlineData: { mimeType, data: videoBase64 } }] }] });
-  return response.text;
+export async function* streamGuide(params: GuideParams, signal?: AbortSignal): AsyncIterable<string> {
+  const model = MODELS.guide;
+  try {
+    const stream = await getClient().models.generateContentStream({ model, contents: [{ role: 'user', parts: [{text: guidePrompt(params)}, await mediaPart(params.mediaId, signal)] }], config: { abortSignal: signal } });
+    for await (const chunk of stream) {
+      checkBlocked(chunk);
+      if (chunk.text) yield chunk.text;
+    }
+  } catch (error) {
+    throw geminiError(error);
+  }
 }
 
-export async function rewriteText({ textToRewrite, prompt }: { textToRewrite: string; prompt: string; }): Promise<string> {
-    const model = 'gemini-2.5-flash';
-    const fullPrompt = `Rewrite the following text based on the user's instructions. Only return the rewritten text.\n\nInstructions: ${prompt}\n\nText to rewrite:\n${textToRewrite}`;
-    const response = await ai.models.generateContent({ model, contents: [{ parts: [{ text: fullPrompt }] }] });
-    return response.text.trim();
+export async function rewriteText(params: RewriteParams, signal?: AbortSignal): Promise<string> {
+    const model = MODELS.rewrite;
+    const response = await generate({ model, contents: [{ parts: [{ text: rewritePrompt(params) }] }], config: { abortSignal: signal } });
+    return (response.text ?? '').trim();
 }
 
-export async function generateSummary({ videoBase64, mimeType, transcript, description }: { videoBase64: string; mimeType: string; transcript: string; description: string; }): Promise<string> {
-    const model = 'gemini-2.5-flash';
-    const fullPrompt = `Generate a concise, one-paragraph (2-4 sentences) summary of the provided screen recording, using the video, transcription, and description.\n\nDescription: ${description || 'N/A'}\nTranscription: ${transcript || 'N/A'}\n\nGenerate only the summary paragraph.`;
-    const response = await ai.models.generateContent({ model, contents: [{ role: 'user', parts: [{ text: fullPrompt }, { inlineData: { mimeType, data: videoBase64 } }] }] });
-    return response.text.trim();
+export async function generateSummary(params: SummaryParams, signal?: AbortSignal): Promise<string> {
+    const model = MODELS.summary;
+    const response = await generate({ model, contents: [{ role: 'user', parts: [{ text: summaryPrompt(params) }, await mediaPart(params.mediaId, signal)] }], config: { abortSignal: signal } });
+    return (response.text ?? '').trim();
 }
+
+export const geminiProvider: LlmProvider = {
+    name: 'gemini',
+    modelFor: (operation) => MODELS[operation],
+    prepareMedia,
+    transcribeVideo,
+    generateTimecodedCaptions,
+    generateGuide,
+    streamGuide,
+    rewriteText,
+    generateSummary,
+};
@@ -0,0 +1,204 @@
+import { EventEmitter } from 'events';
+import type { Job } from '@prisma/client';
+import type { JobType, JobStatus, JobParams } from '@screenguide/shared';
+import { prisma } from './db';
+import { transcribeVideo, generateTimecodedCaptions, generateGuide, prepareMedia } from './llm';
+import { replaceTranscript, replaceCaptions, saveDocument } from './projects';
+import { transcribeChunked, captionChunked, shouldChunk } from './chunking';
+import { AppError, toAppError, ErrorCode } from './errors';
+
+export type { JobType, JobStatus };
+
+export interface JobView {
+    id: string; type: JobType; status: JobStatus; stage: string; progress: number;
+    result: unknown; error: string | null; errorCode: ErrorCode | null; projectId: string | null;
+    createdAt: Date; updatedAt: Date; startedAt: Date | null; finishedAt: Date | null;
+}
+
+/** `report` also throws once the job is cancelled, so every stage boundary is a cancellation point. */
+interface JobContext { report: (stage: string, progress: number) => Promise<void>; signal: AbortSignal; }
+type JobHandler = (params: JobParams, ctx: JobContext) => Promise<unknown>;
+
+const JOB_CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 1;
+const events = new EventEmitter();
+events.setMaxListeners(0);
+let running = 0;
+// Aborting a running job's controller stops the model call in flight.
+const controllers = new Map<string, AbortController>();
+
+const windowProgress = (report: JobContext['report'], label: string) =>
+    (completed: number, total: number) => report(completed < total ? `${label} (window ${completed + 1} of ${total})` : label, 5 + (completed / total) * 90);
+
+// Each handler reports the stage it is entering; progress is the share of the job finished before that stage starts.
+const handlers: Record<JobType, JobHandler> = {
+    transcribe: async (params, { report, signal }) => {
+        let transcript;
+        if (await shouldChunk(params)) {
+            await report('Splitting recording into windows', 5);
+            const onProgress = windowProgress(report, 'Generating speaker diarization');
+            transcript = await transcribeChunked(params, params.chunkOptions, onProgress, signal);
+        } else {
+            await report('Preparing media', 5);
+            await prepareMedia(params.mediaId, signal);
+            await report('Generating speaker diarization', 30);
+            transcript = await transcribeVideo(params, signal);
+        }
+        if (params.projectId && params.recordingId) {
+            await report('Saving transcript', 95);
+            await replaceTranscript(params.projectId, params.recordingId, transcript);
+        }
+        return transcript;
+    },
+    captions: async (params, { report, signal }) => {
+        let captions;
+        if (await shouldChunk(params)) {
+            await report('Splitting recording into windows', 5);
+            const onProgress = windowProgress(report, 'Creating captions');
+            captions = await captionChunked(params, params.chunkOptions, onProgress, signal);
+        } else {
+            await report('Preparing media', 5);
+            await prepareMedia(params.mediaId, signal);
+            await report('Creating captions', 30);
+            captions = await generateTimecodedCaptions(params, signal);
+        }
+        if (params.projectId && params.recordingId && captions.length > 0) {
+            await report('Saving captions', 95);
+            await replaceCaptions(params.projectId, params.recordingId, captions);
+        }
+        return captions;
+    },
+    guide: async (params, { report, signal }) => {
+        await report('Preparing media', 5);
+        await prepareMedia(params.mediaId, signal);
+        await report('Generating content', 30);
+        const { transcript = '', description = '', prompt = '', format = 'guide' } = params;
+        const content = await generateGuide({ ...params, transcript, description, prompt, format }, signal);
+        if (params.projectId) {
+            await report('Saving document', 95);
+            await saveDocument(params.projectId, { format, content, recordingId: params.recordingId || null });
+        }
+        return content;
+    },
+};
+
+const toView = (job: Job): JobView => ({
+    id: job.id, type: job.type as JobType, status: job.status as JobStatus, stage: job.stage, progress: job.progress,
+    result: job.result ? JSON.parse(job.result) : null, error: job.error, errorCode: job.errorCode as ErrorCode | null, projectId: job.projectId,
+    createdAt: job.createdAt, updatedAt: job.updatedAt, startedAt: job.startedAt, finishedAt: job.finishedAt,
+});
+
+async function updateJob(id: string, data: Record<string, unknown>): Promise<void> {
+    const job = await prisma.job.update({ where: { id }, data });
+    events.emit(id, toView(job));
+}
+
+// Used when recording a job's outcome fails itself, e.g. because SQLite is busy, so the job is not left `running`.
+// The row may be gone by then, so a failure here is only logged.
+async function markFailed(id: string, message: string): Promise<void> {
+    try {
+        await prisma.job.updateMany({ where: { id, status: 'running' }, data: { status: 'failed', stage: 'Failed', error: message, errorCode: 'internal', finishedAt: new Date() } });
+    } catch (error) {
+        console.error(`Job ${id} could not be marked as failed:`, error);
+    }
+}
+
+// Never rejects: it runs without a caller to await it, so every failure ends up on the job row or in the log.
+async function runJob(id: string): Promise<void> {
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    const { signal } = controller;
+    const report = async (stage: string, progress: number) => {
+        signal.throwIfAborted();
+        await updateJob(id, { stage, progress });
+    };
+    let type = 'unknown';
+    try {
+        const job = await prisma.job.findUniqueOrThrow({ where: { id } });
+        type = job.type;
+        await updateJob(id, { status: 'running', stage: 'Starting', progress: 0, startedAt: new Date() });
+        const result = await handlers[job.type as JobType](JSON.parse(job.params), { report, signal });
+        signal.throwIfAborted();
+        await updateJob(id, { status: 'done', stage: 'Done', progress: 100, result: JSON.stringify(result ?? null), finishedAt: new Date() });
+    } catch (error) {
+        try {
+            if (signal.aborted) {
+                await updateJob(id, { status: 'cancelled', stage: 'Cancelled', finishedAt: new Date() });
+                return;
+            }
+            console.error(`Job ${id} (${type}) failed:`, error);
+            const { message, code } = toAppError(error, 'Job failed');
+            await updateJob(id, { status: 'failed', stage: 'Failed', error: message, errorCode: code, finishedAt: new Date() });
+        } catch (updateError) {
+            console.error(`Job ${id} (${type}) could not record its outcome:`, updateError);
+            await markFailed(id, signal.aborted ? 'The job was cancelled, but its state could not be saved.' : toAppError(error, 'Job failed').message);
+        }
+    } finally {
+        controllers.delete(id);
+    }
+}
+
+async function drainQueue(): Promise<void> {
+    while (running < JOB_CONCURRENCY) {
+        const next = await prisma.job.findFirst({ where: { status: 'queued' }, orderBy: { createdAt: 'asc' } });
+        if (!next) return;
+        // Claim the job before running it so a concurrent drain cannot start it twice.
+        const claimed = await prisma.job.updateMany({ where: { id: next.id, status: 'queued' }, data: { status: 'running' } });
+        if (claimed.count === 0) continue;
+        running++;
+        runJob(next.id)
+            .catch(error => console.error(`Job ${next.id} failed unexpectedly:`, error))
+            .finally(() => {
+                running--;
+                drainQueue().catch(error => console.error('Failed to start queued jobs:', error));
+            });
+    }
+}
+
+export async function enqueueJob(type: JobType, params: JobParams): Promise<JobView> {
+    if (!handlers[type]) throw new AppError('invalid_request', `Unknown job type: ${type}`);
+    const projectId = params.projectId || null;
+    const job = await prisma.job.create({ data: { type, params: JSON.stringify(params), projectId } });
+    drainQueue().catch(error => console.error('Failed to start queued jobs:', error));
+    return toView(job);
+}
+
+/** Cancels a queued job outright and aborts a running one, which then reports `cancelled` to its subscribers. Finished jobs are left as they are. */
+export async function cancelJob(id: string): Promise<JobView> {
+    const job = await getJob(id);
+    if (job.status === 'queued') {
+        const { count } = await prisma.job.updateMany({ where: { id, status: 'queued' }, data: { status: 'cancelled', stage: 'Cancelled', finishedAt: new Date() } });
+        if (count > 0) {
+            const cancelled = await getJob(id);
+            events.emit(id, cancelled);
+            return cancelled;
+        }
+    }
+    controllers.get(id)?.abort();
+    return getJob(id);
+}
+
+export async function getJob(id: string): Promise<JobView> {
+    const job = await prisma.job.findUnique({ where: { id } });
+    if (!job) throw new AppError('not_found', `Job not found: ${id}`);
+    return toView(job);
+}
+
+export async function listJobs({ projectId, active }: { projectId?: string; active?: boolean }): Promise<JobView[]> {
+    const jobs = await prisma.job.findMany({
+        where: { ...(projectId && { projectId }), ...(active && { status: { in: ['queued', 'running'] } }) },
+        orderBy: { createdAt: 'desc' },
+        take: 50,
+    });
+    return jobs.map(toView);
+}
+
+export function subscribeToJob(id: string, listener: (job: JobView) => void): () => void {
+    events.on(id, listener);
+    return () => events.off(id, listener);
+}
+
+// Jobs that were running when the server stopped are put back in the queue.
+export async function resumeJobs(): Promise<void> {
+    await prisma.job.updateMany({ where: { status: 'running' }, data: { status: 'queued', stage: 'Queued', progress: 0 } });
+    await drainQueue();
+}
@@ -0,0 +1,136 @@
+import type { Caption, DiarizedSegment, TranscriptWord, CacheControl, AnalysisRequest, GuideRequest, RewriteRequest, SummaryRequest } from '@screenguide/shared';
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+import { openaiProvider } from './openai';
+import { getMedia } from './media';
+import { cached, readCache, writeCache } from './cache';
+import { validateTranscript, validateCaptions, repairInstructions, StructuredOutputError, ValidationResult } from './validation';
+import { glossaryText } from './prompts';
+
+export type { Caption, DiarizedSegment, TranscriptWord, CacheControl };
+// Provider parameters are the v1 request bodies.
+export type BaseParams = AnalysisRequest;
+export type GuideParams = GuideRequest;
+export type RewriteParams = RewriteRequest;
+export type SummaryParams = SummaryRequest;
+
+export type LlmOperation = 'transcribe' | 'captions' | 'guide' | 'rewrite' | 'summary';
+
+export interface LlmProvider {
+    name: string;
+    /** Model used for an operation; part of the result cache key. */
+    modelFor(operation: LlmOperation): string;
+    /** Makes a stored recording available to the model ahead of the first request that needs it. */
+    prepareMedia(mediaId: string, signal?: AbortSignal): Promise<void>;
+    /**
+     * `repair` is extra prompt text listing what was wrong with the previous answer; providers that cannot be re-prompted may ignore it.
+     * Aborting `signal` in any operation stops the upstream request.
+     */
+    transcribeVideo(params: BaseParams, repair?: string, signal?: AbortSignal): Promise<DiarizedSegment[]>;
+    generateTimecodedCaptions(params: BaseParams, repair?: string, signal?: AbortSignal): Promise<Caption[]>;
+    generateGuide(params: GuideParams, signal?: AbortSignal): Promise<string>;
+    /** Yields the guide as text chunks while the model writes it. */
+    streamGuide(params: GuideParams, signal?: AbortSignal): AsyncIterable<string>;
+    rewriteText(params: RewriteParams, signal?: AbortSignal): Promise<string>;
+    generateSummary(params: SummaryParams, signal?: AbortSignal): Promise<string>;
+}
+
+const providers: Record<string, LlmProvider> = {
+    gemini: geminiProvider,
+    mock: mockProvider,
+    openai: openaiProvider,
+};
+
+export function getProvider(): LlmProvider {
+    const name = process.env.LLM_PROVIDER || 'gemini';
+    const provider = providers[name];
+    if (!provider) throw new Error(`Unknown LLM_PROVIDER "${name}". Expected one of: ${Object.keys(providers).join(', ')}.`);
+    return provider;
+}
+
+export const prepareMedia = (mediaId: string, signal?: AbortSignal) => getProvider().prepareMedia(mediaId, signal);
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Validates structured output, repairs what can be fixed locally and re-prompts the model with whatever cannot.
+async function withRepair<T>(attempt: (repair?: string) => Promise<unknown>, validate: (raw: unknown) => ValidationResult<T>, functionName: string, signal?: AbortSignal): Promise<T[]> {
+    let repair: string | undefined;
+    let best: ValidationResult<T> | undefined;
+    let lastError: StructuredOutputError | undefined;
+    for (let i = 0; i <= MAX_REPAIR_ATTEMPTS; i++) {
+        signal?.throwIfAborted();
+        try {
+            const result = validate(await attempt(repair));
+            if (result.violations.length === 0) return result.items;
+            best = result;
+            repair = repairInstructions(result.violations, functionName);
+        } catch (error) {
+            if (!(error instanceof StructuredOutputError)) throw error;
+            lastError = error;
+            repair = repairInstructions(error.violations, functionName);
+        }
+    }
+    if (best) {
+        console.warn(`Dropping ${best.violations.length} invalid rows from ${functionName} after ${MAX_REPAIR_ATTEMPTS} repair attempts:`, best.violations);
+        return best.items;
+    }
+    throw lastError!;
+}
+
+// The cache key only serialises top-level fields, so the glossary is keyed by its prompt text.
+const analysisScope = (operation: 'transcribe' | 'captions', provider: LlmProvider, { mediaId, description, userPrompt, glossary }: BaseParams) =>
+    ({ operation, provider, mediaId, params: { description, userPrompt, glossary: glossary?.length ? glossaryText(glossary) : undefined } });
+
+export async function transcribeVideo(params: BaseParams, signal?: AbortSignal): Promise<DiarizedSegment[]> {
+    const provider = getProvider();
+    const { duration } = await getMedia(params.mediaId);
+    const scope = analysisScope('transcribe', provider, params);
+    return cached(scope, params.bypassCache, () => withRepair(repair => provider.transcribeVideo(params, repair, signal), raw => validateTranscript(raw, duration), 'set_diarized_transcript', signal));
+}
+
+export async function generateTimecodedCaptions(params: BaseParams, signal?: AbortSignal): Promise<Caption[]> {
+    const provider = getProvider();
+    const { duration } = await getMedia(params.mediaId);
+    const scope = analysisScope('captions', provider, params);
+    return cached(scope, params.bypassCache, () => withRepair(repair => provider.generateTimecodedCaptions(params, repair, signal), raw => validateCaptions(raw, duration), 'set_timecodes', signal), captions => captions.length > 0);
+}
+
+// Speakers are flattened like the glossary; colours do not change the document.
+const guideScope = (provider: LlmProvider, { mediaId, transcript, description, prompt, format, speakers, glossary }: GuideParams) => ({
+    operation: 'guide' as const, provider, mediaId,
+    params: {
+        transcript, description, prompt, format,
+        speakers: speakers?.length ? speakers.map(({ name, role }) => `${name}|${role || ''}`).join('\n') : undefined,
+        glossary: glossary?.length ? glossaryText(glossary) : undefined,
+    },
+});
+
+export async function generateGuide(params: GuideParams, signal?: AbortSignal): Promise<string> {
+    const provider = getProvider();
+    return cached(guideScope(provider, params), params.bypassCache, () => provider.generateGuide(params, signal), content => content.length > 0);
+}
+
+// A cache hit is replayed as one chunk; a stream that finishes without being aborted is stored for next time.
+export async function* streamGuide(params: GuideParams, signal?: AbortSignal): AsyncIterable<string> {
+    const provider = getProvider();
+    const scope = guideScope(provider, params);
+    const hit = params.bypassCache ? undefined : await readCache<string>(scope);
+    if (hit !== undefined) {
+        yield hit;
+        return;
+    }
+    let content = '';
+    for await (const chunk of provider.streamGuide(params, signal)) {
+        content += chunk;
+        yield chunk;
+    }
+    if (!signal?.aborted && content) await writeCache(scope, content);
+}
+
+export const rewriteText = (params: RewriteParams, signal?: AbortSignal) => getProvider().rewriteText(params, signal);
+
+export async function generateSummary(params: SummaryParams, signal?: AbortSignal): Promise<string> {
+    const provider = getProvider();
+    const { mediaId, transcript, description } = params;
+    const scope = { operation: 'summary' as const, provider, mediaId, params: { transcript, description } };
+    return cached(scope, params.bypassCache, () => provider.generateSummary(params, signal), summary => summary.length > 0);
+}
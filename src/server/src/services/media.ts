@@ -0,0 +1,114 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import multer from 'multer';
+import { AppError } from './errors';
+
+export interface StoredMedia { id: string; path: string; mimeType: string; size: number; originalName: string; createdAt: string; duration?: number; sha256?: string; }
+
+const MEDIA_DIR = path.resolve(process.env.MEDIA_DIR || 'uploads');
+const MAX_UPLOAD_BYTES = 600 * 1024 * 1024;
+
+fs.mkdirSync(MEDIA_DIR, { recursive: true });
+
+const metaPath = (id: string) => path.join(MEDIA_DIR, `${id}.json`);
+
+// Multer writes the incoming stream straight to disk, so the recording is never buffered in memory.
+const storage = multer.diskStorage({
+    destination: MEDIA_DIR,
+    filename: (_req, _file, cb) => cb(null, crypto.randomUUID()),
+});
+
+export const mediaUpload = multer({
+    storage,
+    limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+    fileFilter: (_req, file, cb) => {
+        if (file.mimetype.startsWith('video/') || file.mimetype.startsWith('audio/')) return cb(null, true);
+        cb(new AppError('unsupported_media_type', `Unsupported media type: ${file.mimetype}. Upload a video or audio file.`));
+    },
+}).single('media');
+
+const hashFile = (filePath: string): Promise<string> => new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+        .on('data', chunk => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+});
+
+/** `duration` is the length in seconds reported by the client, used to bound model timecodes. */
+export async function registerMedia(file: Express.Multer.File, duration?: number): Promise<StoredMedia> {
+    const media: StoredMedia = {
+        id: file.filename,
+        path: file.path,
+        mimeType: file.mimetype,
+        size: file.size,
+        originalName: file.originalname,
+        createdAt: new Date().toISOString(),
+        duration: duration && Number.isFinite(duration) && duration > 0 ? duration : undefined,
+        sha256: await hashFile(file.path),
+    };
+    await fs.promises.writeFile(metaPath(media.id), JSON.stringify(media, null, 2));
+    return media;
+}
+
+/** Stores a file the server produces itself, such as a window cut from a longer recording. `write` receives the target path. */
+export async function createDerivedMedia(write: (outPath: string) => Promise<void>, { mimeType, originalName, duration }: { mimeType: string; originalName: string; duration?: number }): Promise<StoredMedia> {
+    const id = crypto.randomUUID();
+    const filePath = path.join(MEDIA_DIR, id);
+    // A write that fails or is cancelled part way must not leave a half-written file behind.
+    await write(filePath).catch(async error => {
+        await fs.promises.rm(filePath, { force: true });
+        throw error;
+    });
+    const { size } = await fs.promises.stat(filePath);
+    const media: StoredMedia = { id, path: filePath, mimeType, size, originalName, createdAt: new Date().toISOString(), duration, sha256: await hashFile(filePath) };
+    await fs.promises.writeFile(metaPath(id), JSON.stringify(media, null, 2));
+    return media;
+}
+
+const MIME_TYPES: Record<string, string> = {
+    '.mp4': 'video/mp4', '.m4v': 'video/mp4', '.mov': 'video/quicktime', '.webm': 'video/webm', '.mkv': 'video/x-matroska', '.avi': 'video/x-msvideo',
+    '.mp3': 'audio/mpeg', '.m4a': 'audio/mp4', '.wav': 'audio/wav', '.ogg': 'audio/ogg', '.flac': 'audio/flac',
+};
+
+/** Copies a recording from the local file system into the media store, for callers that do not go through an upload. */
+export async function importMedia(filePath: string, duration?: number): Promise<StoredMedia> {
+    const mimeType = MIME_TYPES[path.extname(filePath).toLowerCase()];
+    if (!mimeType) throw new AppError('unsupported_media_type', `Unsupported media type: ${path.basename(filePath)}. Use a video or audio file.`);
+    return createDerivedMedia(outPath => fs.promises.copyFile(filePath, outPath), { mimeType, originalName: path.basename(filePath), duration });
+}
+
+export async function getMedia(id: string): Promise<StoredMedia> {
+    if (!/^[0-9a-f-]{36}$/i.test(id)) throw new AppError('invalid_request', `Invalid media ID: ${id}`);
+    try {
+        return JSON.parse(await fs.promises.readFile(metaPath(id), 'utf8')) as StoredMedia;
+    } catch {
+        throw new AppError('not_found', `Media not found: ${id}`);
+    }
+}
+
+/** Content hash of the recording; computed and stored on first use for media uploaded before hashing existed. */
+export async function getMediaHash(id: string): Promise<string> {
+    const media = await getMedia(id);
+    if (!media.sha256) {
+        media.sha256 = await hashFile(media.path);
+        await fs.promises.writeFile(metaPath(id), JSON.stringify(media, null, 2));
+    }
+    return media.sha256;
+}
+
+// Providers that keep their own copy of a recording, such as the Gemini Files API, are told when it is deleted.
+type DeleteListener = (id: string) => Promise<void>;
+const deleteListeners: DeleteListener[] = [];
+
+export function onMediaDeleted(listener: DeleteListener): void {
+    deleteListeners.push(listener);
+}
+
+export async function deleteMedia(id: string): Promise<void> {
+    const media = await getMedia(id);
+    await fs.promises.rm(media.path, { force: true });
+    await fs.promises.rm(metaPath(id), { force: true });
+    await Promise.allSettled(deleteListeners.map(listener => listener(id)));
+}
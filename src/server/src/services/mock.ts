@@ -0,0 +1,44 @@
+import fs from 'fs';
+import path from 'path';
+import type { LlmProvider, Caption, DiarizedSegment } from './llm';
+
+interface MockFixtures { transcript: DiarizedSegment[]; captions: Caption[]; documents: Record<string, string>; summary: string; }
+
+// Resolves to src/server/fixtures from both src/services and the compiled dist/services.
+const DEFAULT_FIXTURES = path.resolve(__dirname, '../../fixtures/mock-provider.json');
+
+let fixtures: MockFixtures | undefined;
+
+function loadFixtures(): MockFixtures {
+    if (!fixtures) {
+        fixtures = JSON.parse(fs.readFileSync(process.env.MOCK_FIXTURES || DEFAULT_FIXTURES, 'utf8')) as MockFixtures;
+    }
+    return fixtures;
+}
+
+const fixtureDocument = (format: string) => {
+    const { documents } = loadFixtures();
+    return documents[format] ?? documents.guide;
+};
+
+/**
+ * Deterministic provider for CI and offline development. It never contacts a model and
+ * answers every request from a fixture file, so the same input always gives the same output.
+ */
+export const mockProvider: LlmProvider = {
+    name: 'mock',
+    modelFor: () => 'fixtures',
+    prepareMedia: async () => {},
+    transcribeVideo: async () => loadFixtures().transcript,
+    generateTimecodedCaptions: async () => loadFixtures().captions,
+    generateGuide: async ({ format }) => fixtureDocument(format),
+    streamGuide: async function* ({ format }, signal) {
+        // Line by line, so clients exercise the same incremental rendering as with a real model.
+        for (const line of fixtureDocument(format).split(/(?<=\n)/)) {
+            if (signal?.aborted) return;
+            yield line;
+        }
+    },
+    rewriteText: async ({ textToRewrite }) => textToRewrite.trim(),
+    generateSummary: async () => loadFixtures().summary,
+};
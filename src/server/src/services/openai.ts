@@ -0,0 +1,109 @@
+import { openAsBlob } from 'fs';
+import { getMedia } from './media';
+import { guidePrompt, rewritePrompt, summaryPrompt } from './prompts';
+import { Timecode } from '@screenguide/shared/timecode';
+import { AppError, providerError } from './errors';
+import type { LlmProvider, BaseParams, GuideParams, RewriteParams, SummaryParams, Caption, DiarizedSegment } from './llm';
+
+/**
+ * Provider for any server that speaks the OpenAI REST API (vLLM, llama.cpp, Ollama, LocalAI, ...).
+ * Chat models there usually cannot watch video, so speech is transcribed through the
+ * /audio/transcriptions endpoint and the documents are written from the transcript alone.
+ */
+const BASE_URL = (process.env.OPENAI_BASE_URL || 'http://localhost:8000/v1').replace(/\/$/, '');
+const CHAT_MODEL = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+const TRANSCRIPTION_MODEL = process.env.OPENAI_TRANSCRIPTION_MODEL || 'whisper-1';
+
+interface TranscriptionSegment { start: number; end: number; text: string; }
+interface TranscriptionWord { start: number; end: number; word: string; }
+
+const authHeaders = (): Record<string, string> => process.env.OPENAI_API_KEY ? { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` } : {};
+
+async function responseError(response: Response, endpoint: string): Promise<AppError> {
+    const detail = await response.text().catch(() => '');
+    const retryAfter = Number(response.headers.get('retry-after')) || undefined;
+    return providerError(response.status, `OpenAI-compatible provider returned ${response.status} for ${endpoint}: ${detail.slice(0, 500)}`, retryAfter);
+}
+
+async function request<T>(endpoint: string, init: RequestInit): Promise<T> {
+    const response = await fetch(`${BASE_URL}/${endpoint}`, { ...init, headers: { ...authHeaders(), ...init.headers } });
+    if (!response.ok) throw await responseError(response, endpoint);
+    return response.json() as Promise<T>;
+}
+
+async function* streamChat(prompt: string, signal?: AbortSignal): AsyncIterable<string> {
+    const response = await fetch(`${BASE_URL}/chat/completions`, {
+        method: 'POST',
+        headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: CHAT_MODEL, messages: [{ role: 'user', content: prompt }], stream: true }),
+        signal,
+    });
+    if (!response.ok || !response.body) throw await responseError(response, 'chat/completions');
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const bytes of response.body) {
+        buffer += decoder.decode(bytes, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            const data = line.replace(/^data:\s*/, '').trim();
+            if (!line.startsWith('data:') || !data) continue;
+            if (data === '[DONE]') return;
+            const choice = JSON.parse(data).choices?.[0];
+            if (choice?.finish_reason === 'content_filter') throw new AppError('safety_blocked', 'The provider filtered the response.');
+            if (choice?.delta?.content) yield choice.delta.content;
+        }
+    }
+}
+
+async function chat(prompt: string, signal?: AbortSignal): Promise<string> {
+    const data = await request<{ choices: { message: { content: string | null }; finish_reason?: string }[] }>('chat/completions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: CHAT_MODEL, messages: [{ role: 'user', content: prompt }] }),
+        signal,
+    });
+    if (data.choices[0]?.finish_reason === 'content_filter') throw new AppError('safety_blocked', 'The provider filtered the response.');
+    return (data.choices[0]?.message.content ?? '').trim();
+}
+
+async function transcribeSegments({ mediaId, description, glossary = [] }: BaseParams, withWords: boolean, signal?: AbortSignal): Promise<{ segments: TranscriptionSegment[]; words: TranscriptionWord[] }> {
+    const media = await getMedia(mediaId);
+    const form = new FormData();
+    form.append('file', await openAsBlob(media.path, { type: media.mimeType }), media.originalName);
+    form.append('model', TRANSCRIPTION_MODEL);
+    form.append('response_format', 'verbose_json');
+    if (withWords) ['segment', 'word'].forEach(granularity => form.append('timestamp_granularities[]', granularity));
+    // The prompt is the only way to steer Whisper's spelling; listing the preferred terms is enough.
+    const prompt = [description, ...glossary.map(({ term }) => term)].filter(Boolean).join(', ');
+    if (prompt) form.append('prompt', prompt);
+    const data = await request<{ segments?: TranscriptionSegment[]; words?: TranscriptionWord[] }>('audio/transcriptions', { method: 'POST', body: form, signal });
+    return { segments: data.segments ?? [], words: data.words ?? [] };
+}
+
+// Whisper-style endpoints do not diarize, so every segment is attributed to a single speaker. Word timings come as one
+// list for the whole file and are handed to the segment they start in; there is no per-word confidence.
+async function transcribeVideo(params: BaseParams, _repair?: string, signal?: AbortSignal): Promise<DiarizedSegment[]> {
+    const { segments, words } = await transcribeSegments(params, true, signal);
+    return segments.map(s => ({
+        speaker: 'Speaker 1', startTime: Timecode.fromSeconds(s.start).toString(), endTime: Timecode.fromSeconds(s.end).toString(), text: s.text.trim(),
+        words: words.filter(w => w.start >= s.start && w.start < s.end).map(w => ({ text: w.word, startTime: Timecode.fromSeconds(w.start).toString(), endTime: Timecode.fromSeconds(w.end).toString() })),
+    }));
+}
+
+async function generateTimecodedCaptions(params: BaseParams, _repair?: string, signal?: AbortSignal): Promise<Caption[]> {
+    const { segments } = await transcribeSegments(params, false, signal);
+    return segments.map(s => ({ startTime: Timecode.fromSeconds(s.start).toString(), endTime: Timecode.fromSeconds(s.end).toString(), text: `"${s.text.trim()}"` }));
+}
+
+export const openaiProvider: LlmProvider = {
+    name: 'openai',
+    modelFor: (operation) => operation === 'transcribe' || operation === 'captions' ? TRANSCRIPTION_MODEL : CHAT_MODEL,
+    prepareMedia: async (mediaId) => { await getMedia(mediaId); },
+    transcribeVideo,
+    generateTimecodedCaptions,
+    generateGuide: (params: GuideParams, signal?: AbortSignal) => chat(guidePrompt(params), signal),
+    streamGuide: (params: GuideParams, signal?: AbortSignal) => streamChat(guidePrompt(params), signal),
+    rewriteText: (params: RewriteParams, signal?: AbortSignal) => chat(rewritePrompt(params), signal),
+    generateSummary: (params: SummaryParams, signal?: AbortSignal) => chat(summaryPrompt(params), signal),
+};
@@ -0,0 +1,50 @@
+import type { Caption, DiarizedSegment, GlossaryTerm, OutputFormat } from '@screenguide/shared';
+import { transcribeVideo, generateTimecodedCaptions, generateGuide, prepareMedia } from './llm';
+import { transcribeChunked, captionChunked, shouldChunk } from './chunking';
+
+export interface PipelineOptions {
+    description?: string;
+    prompt?: string;
+    format?: OutputFormat;
+    glossary?: GlossaryTerm[];
+    /** Skips transcription for recordings without useful speech; the guide is written from captions and visuals alone. */
+    skipAudio?: boolean;
+    /** Same as the job parameter: forces or disables windowed processing, or leaves it to the recording's length. */
+    chunked?: boolean;
+    bypassCache?: boolean;
+}
+
+export interface PipelineResult {
+    diarizedTranscript: DiarizedSegment[];
+    timecodedCaptions: Caption[];
+    content: string;
+}
+
+// The guide prompt takes the transcript as plain text, the same way the editor sends it.
+export const transcriptText = (transcript: DiarizedSegment[]) =>
+    transcript.length > 0 ? transcript.map(s => `${s.speaker}: ${s.text}`).join('\n') : 'No speech detected.';
+
+/** Runs what the editor does for a new recording without a project: transcript, captions, then the document. */
+export async function runPipeline(mediaId: string, options: PipelineOptions = {}, onStage: (stage: string) => void = () => {}, signal?: AbortSignal): Promise<PipelineResult> {
+    const { description = '', prompt = '', format = 'guide', glossary, skipAudio = false, chunked, bypassCache } = options;
+    const params = { mediaId, description, userPrompt: prompt, glossary, bypassCache };
+    const windowed = await shouldChunk({ mediaId, chunked });
+    const windowProgress = (label: string) => (completed: number, total: number) => onStage(completed < total ? `${label} (window ${completed + 1} of ${total})` : label);
+
+    // The guide is written from the whole recording, so it is prepared even when transcription works on windows.
+    onStage('Preparing media');
+    await prepareMedia(mediaId, signal);
+
+    let diarizedTranscript: DiarizedSegment[] = [];
+    if (!skipAudio) {
+        onStage('Generating speaker diarization');
+        diarizedTranscript = windowed ? await transcribeChunked(params, {}, windowProgress('Generating speaker diarization'), signal) : await transcribeVideo(params, signal);
+    }
+
+    onStage('Creating captions');
+    const timecodedCaptions = windowed ? await captionChunked(params, {}, windowProgress('Creating captions'), signal) : await generateTimecodedCaptions(params, signal);
+
+    onStage('Generating content');
+    const content = await generateGuide({ mediaId, transcript: transcriptText(diarizedTranscript), description, prompt, format, glossary, bypassCache }, signal);
+    return { diarizedTranscript, timecodedCaptions, content };
+}
@@ -0,0 +1,123 @@
+import { prisma } from './db';
+import { AppError } from './errors';
+import { deleteMedia } from './media';
+import { normaliseTimecodes } from './validation';
+import type { Caption, DiarizedSegment, GlossaryTerm, Speaker, ProjectFields, RecordingFields, DocumentRequest, TranscriptWord } from '@screenguide/shared';
+
+export interface DocumentFields extends DocumentRequest { format: string; }
+
+const projectDetail = {
+    recordings: {
+        orderBy: { createdAt: 'asc' as const },
+        include: {
+            transcript: { orderBy: { position: 'asc' as const } },
+            captions: { orderBy: { position: 'asc' as const } },
+            speakers: { orderBy: { position: 'asc' as const } },
+        },
+    },
+    documents: { orderBy: { updatedAt: 'desc' as const } },
+    glossary: { orderBy: { position: 'asc' as const } },
+};
+
+export function listProjects() {
+    return prisma.project.findMany({ orderBy: { updatedAt: 'desc' }, include: { _count: { select: { recordings: true, documents: true } } } });
+}
+
+// Word timings are stored on their segment as JSON text.
+const parseWords = <T extends { words: string | null }>({ words, ...segment }: T) => ({ ...segment, ...(words ? { words: JSON.parse(words) as TranscriptWord[] } : {}) });
+const withParsedWords = <T extends { transcript: { words: string | null }[] }>(recording: T) => ({ ...recording, transcript: recording.transcript.map(parseWords) });
+
+export async function getProject(id: string) {
+    const project = await prisma.project.findUnique({ where: { id }, include: projectDetail });
+    if (!project) throw new AppError('not_found', `Project not found: ${id}`);
+    return {
+        ...project,
+        recordings: project.recordings.map(withParsedWords),
+        glossary: project.glossary.map(({ term, variants }: { term: string; variants: string }) => ({ term, variants: variants ? variants.split('\n') : [] })),
+    };
+}
+
+export function createProject({ name, ...fields }: ProjectFields) {
+    return prisma.project.create({ data: { name: name || 'Untitled project', ...fields } });
+}
+
+export function updateProject(id: string, fields: ProjectFields) {
+    return prisma.project.update({ where: { id }, data: fields });
+}
+
+// The recordings' uploads go through `deleteMedia`, so its listeners clean up provider copies as well. An upload another
+// project still uses is kept.
+export async function deleteProject(id: string): Promise<void> {
+    const recordings: { mediaId: string }[] = await prisma.recording.findMany({ where: { projectId: id }, select: { mediaId: true } });
+    await prisma.project.delete({ where: { id } });
+    const mediaIds = [...new Set(recordings.map(({ mediaId }) => mediaId))];
+    const stillUsed: { mediaId: string }[] = await prisma.recording.findMany({ where: { mediaId: { in: mediaIds } }, select: { mediaId: true } });
+    const orphaned = mediaIds.filter(mediaId => !stillUsed.some(recording => recording.mediaId === mediaId));
+    await Promise.all(orphaned.map(mediaId => deleteMedia(mediaId).catch(error => {
+        if (!(error instanceof AppError && error.code === 'not_found')) console.warn(`Could not delete media ${mediaId} of project ${id}:`, error);
+    })));
+}
+
+export function addRecording(projectId: string, { mediaId, fileName, mimeType, size }: RecordingFields) {
+    return prisma.recording.create({ data: { projectId, mediaId, fileName, mimeType, size } });
+}
+
+export async function deleteRecording(projectId: string, recordingId: string): Promise<void> {
+    await prisma.recording.delete({ where: { id: recordingId, projectId } });
+}
+
+// Transcript and caption lists are edited as a whole in the client, so saves replace every row and keep array order in `position`.
+export async function replaceTranscript(projectId: string, recordingId: string, segments: DiarizedSegment[]) {
+    await prisma.recording.findFirstOrThrow({ where: { id: recordingId, projectId } });
+    await prisma.$transaction([
+        prisma.transcriptSegment.deleteMany({ where: { recordingId } }),
+        prisma.transcriptSegment.createMany({
+            data: normaliseTimecodes(segments).map(({ speaker, startTime, endTime, text, words }, position) => ({
+                recordingId, position, speaker, startTime, endTime, text,
+                words: words?.length ? JSON.stringify(normaliseTimecodes(words, `Row ${position + 1}, word`).map(({ text, startTime, endTime, confidence }) => ({ text, startTime, endTime, confidence }))) : null,
+            })),
+        }),
+        prisma.project.update({ where: { id: projectId }, data: { updatedAt: new Date() } }),
+    ]);
+}
+
+export async function replaceCaptions(projectId: string, recordingId: string, captions: Caption[]) {
+    await prisma.recording.findFirstOrThrow({ where: { id: recordingId, projectId } });
+    await prisma.$transaction([
+        prisma.caption.deleteMany({ where: { recordingId } }),
+        prisma.caption.createMany({
+            data: normaliseTimecodes(captions).map(({ startTime, endTime, text }, position) => ({ recordingId, position, startTime, endTime, text })),
+        }),
+        prisma.project.update({ where: { id: projectId }, data: { updatedAt: new Date() } }),
+    ]);
+}
+
+export async function replaceSpeakers(projectId: string, recordingId: string, speakers: Speaker[]) {
+    await prisma.recording.findFirstOrThrow({ where: { id: recordingId, projectId } });
+    await prisma.$transaction([
+        prisma.speaker.deleteMany({ where: { recordingId } }),
+        prisma.speaker.createMany({
+            data: speakers.map(({ name, role = '', color = '' }, position) => ({ recordingId, position, name, role, color })),
+        }),
+        prisma.project.update({ where: { id: projectId }, data: { updatedAt: new Date() } }),
+    ]);
+}
+
+export async function replaceGlossary(projectId: string, glossary: GlossaryTerm[]) {
+    await prisma.project.findUniqueOrThrow({ where: { id: projectId } });
+    await prisma.$transaction([
+        prisma.glossaryTerm.deleteMany({ where: { projectId } }),
+        prisma.glossaryTerm.createMany({
+            data: glossary.map(({ term, variants }, position) => ({ projectId, position, term: term.trim(), variants: variants.map(v => v.trim()).filter(Boolean).join('\n') })),
+        }),
+        prisma.project.update({ where: { id: projectId }, data: { updatedAt: new Date() } }),
+    ]);
+}
+
+export function saveDocument(projectId: string, { format, content, summary = '', recordingId = null }: DocumentFields) {
+    return prisma.generatedDocument.upsert({
+        where: { projectId_format: { projectId, format } },
+        create: { projectId, format, content, summary, recordingId },
+        update: { content, summary, recordingId },
+    });
+}
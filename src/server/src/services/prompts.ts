@@ -0,0 +1,47 @@
+import type { BaseParams, GuideParams, RewriteParams, SummaryParams } from './llm';
+
+// One line per term: `Term (not variant, variant)`.
+export const glossaryText = (glossary: BaseParams['glossary'] = []) =>
+    glossary.map(({ term, variants }) => variants.length > 0 ? `${term} (not ${variants.join(', ')})` : term).join('\n');
+
+const withGlossary = (prompt: string, glossary: BaseParams['glossary']) => glossary?.length
+    ? `${prompt}\n\nGlossary - spell these terms exactly as written, never as the variants in brackets:\n${glossaryText(glossary)}`
+    : prompt;
+
+const withContext = (prompt: string, { description, userPrompt, glossary }: Pick<BaseParams, 'description' | 'userPrompt' | 'glossary'>) => {
+    if (description) prompt += `\n\nContext: ${description}`;
+    if (userPrompt) prompt += `\n\nInstructions: ${userPrompt}`;
+    return withGlossary(prompt, glossary);
+};
+
+export const transcriptionPrompt = (params: BaseParams) => withContext(
+    `Generate a verbatim text transcription of the audio in this video. Identify each speaker, label them consistently (e.g., "Speaker 1"), provide precise start/end timecodes (HH:MM:SS.sss), and use 'set_diarized_transcript' to format your response. For each segment, also list its words with their own start/end timecodes and a confidence from 0 to 1 for how sure you are each word was heard correctly.`,
+    params,
+);
+
+export const captionsPrompt = (params: BaseParams) => withContext(
+    `For each scene or significant event, generate a caption describing the visual action and any spoken text (in quotes). Provide precise start/end timecodes (HH:MM:SS.sss). Use 'set_timecodes' to format the output.`,
+    params,
+);
+
+export const formatInstructions: Record<string, string> = {
+    guide: "A step-by-step guide with numbered lists and image placeholders: `[Image: description at HH:MM:SS.sss]`.",
+    article: "A knowledge base article with headings and paragraphs, using image placeholders.",
+    slides: "A presentation separated by '---', using markdown headers for titles, and image placeholders.",
+    diagram: "A flowchart in Mermaid syntax ('graph TD'). Output ONLY the raw Mermaid code.",
+};
+
+// Names in the transcript are the user's; roles tell the model how to refer to each person.
+const speakerList = (speakers: GuideParams['speakers'] = []) => speakers.length === 0 ? ''
+    : `\nSpeakers: ${speakers.map(({ name, role }) => role ? `${name} (${role})` : name).join('; ')}. Refer to them by name and role rather than as speaker numbers.`;
+
+export const guidePrompt = ({ transcript, description, prompt, format, speakers, glossary }: GuideParams) => {
+    const formatInstruction = formatInstructions[format] || formatInstructions.guide;
+    return withGlossary(`You are ScreenGuide AI. Create a guide from a screen recording. Analyze visuals and audio to create a comprehensive, chronological document.\n\nVideo Description: ${description || 'N/A'}${speakerList(speakers)}\nAudio Transcription: ${transcript}\nOutput Format: ${formatInstruction}\nUser Instructions: ${prompt || 'N/A'}\n\nGenerate the final content only.`, glossary);
+};
+
+export const rewritePrompt = ({ textToRewrite, prompt }: RewriteParams) =>
+    `Rewrite the following text based on the user's instructions. Only return the rewritten text.\n\nInstructions: ${prompt}\n\nText to rewrite:\n${textToRewrite}`;
+
+export const summaryPrompt = ({ transcript, description }: SummaryParams) =>
+    `Generate a concise, one-paragraph (2-4 sentences) summary of the provided screen recording, using the video, transcription, and description.\n\nDescription: ${description || 'N/A'}\nTranscription: ${transcript || 'N/A'}\n\nGenerate only the summary paragraph.`;
@@ -0,0 +1,65 @@
+import fs from 'fs';
+import path from 'path';
+import type { GlossaryTerm, OutputFormat, Speaker } from '@screenguide/shared';
+import { getMedia } from './media';
+import { extractFrame, clampToMedia, FrameFormat, FrameOptions } from './ffmpeg';
+import { findImagePlaceholders } from '@screenguide/shared/timecode';
+import { exportToAss, exportToJson, exportToSrt, exportToVtt } from './subtitles';
+import type { PipelineResult } from './pipeline';
+
+export interface SessionData extends PipelineResult {
+    description: string;
+    prompt: string;
+    format: OutputFormat;
+    speakers?: Speaker[];
+    glossary?: GlossaryTerm[];
+}
+
+const FRAME_EXTENSIONS: Record<FrameFormat, string> = { png: 'png', jpeg: 'jpg', webp: 'webp' };
+
+// Replaces timed `[Image: ... at HH:MM:SS.sss]` placeholders with links to frames written into `imagesDir`.
+// Placeholders whose frame cannot be extracted are left as they are, like in the editor's export.
+async function embedFrames(content: string, mediaId: string, options: FrameOptions, imagesDir: string, linkPrefix: string): Promise<string> {
+    const placeholders = findImagePlaceholders(content).filter(match => match.time);
+    if (placeholders.length === 0) return content;
+    const media = await getMedia(mediaId);
+    await fs.promises.mkdir(imagesDir, { recursive: true });
+    let updatedContent = content;
+    for (const [index, { placeholder, description, time }] of placeholders.entries()) {
+        try {
+            const image = await extractFrame(media.path, clampToMedia(time!, media.duration), options);
+            const imageName = `image-${index + 1}.${FRAME_EXTENSIONS[options.format || 'png']}`;
+            await fs.promises.writeFile(path.join(imagesDir, imageName), image);
+            updatedContent = updatedContent.replace(placeholder, `![${description}](${linkPrefix}${imageName})`);
+        } catch (error) {
+            console.warn(`Could not extract the frame at ${time}:`, error instanceof Error ? error.message : error);
+        }
+    }
+    return updatedContent;
+}
+
+/** Writes the layout of the editor's `ScreenGuide-Session.zip` into `outDir`: `session.json`, `output/`, `images/` and `subtitles/`. */
+export async function writeSession(outDir: string, mediaId: string, session: SessionData, frameOptions: FrameOptions = {}): Promise<void> {
+    const { description, prompt, format, diarizedTranscript, timecodedCaptions, content, speakers = [], glossary = [] } = session;
+    await fs.promises.mkdir(outDir, { recursive: true });
+    await fs.promises.writeFile(path.join(outDir, 'session.json'), JSON.stringify({
+        userContext: { videoDescription: description, userPrompt: prompt, glossary },
+        rawData: { diarizedTranscript, timecodedCaptions, speakers },
+        generatedOutput: { format, content },
+        timestamp: new Date().toISOString(),
+    }, null, 2));
+
+    if (content) {
+        const isDiagram = format === 'diagram';
+        const output = isDiagram ? content : await embedFrames(content, mediaId, frameOptions, path.join(outDir, 'images'), '../images/');
+        await fs.promises.mkdir(path.join(outDir, 'output'), { recursive: true });
+        await fs.promises.writeFile(path.join(outDir, 'output', `${format}.${isDiagram ? 'mmd' : 'md'}`), output);
+    }
+
+    const subtitlesDir = path.join(outDir, 'subtitles');
+    await fs.promises.mkdir(subtitlesDir, { recursive: true });
+    await fs.promises.writeFile(path.join(subtitlesDir, 'transcript.ass'), exportToAss(diarizedTranscript, timecodedCaptions, speakers));
+    await fs.promises.writeFile(path.join(subtitlesDir, 'transcript.json'), exportToJson(diarizedTranscript, timecodedCaptions));
+    await fs.promises.writeFile(path.join(subtitlesDir, 'transcript.srt'), exportToSrt(diarizedTranscript, timecodedCaptions));
+    await fs.promises.writeFile(path.join(subtitlesDir, 'transcript.vtt'), exportToVtt(diarizedTranscript, timecodedCaptions));
+}
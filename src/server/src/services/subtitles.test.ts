@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { exportToAss, exportToSrt, exportToVtt } from './subtitles';
+
+const captions = [
+    { startTime: '10:00', endTime: '10:02', text: 'Later' },
+    { startTime: '9:00', endTime: '9:02', text: 'Earlier' },
+];
+
+test('orders cues by time, not as strings, so 9:00 comes before 10:00', () => {
+    assert.equal(exportToSrt([], captions), '1\n00:09:00,000 --> 00:09:02,000\nEarlier\n\n2\n00:10:00,000 --> 00:10:02,000\nLater\n');
+    assert.equal(exportToVtt([], captions), 'WEBVTT\n\n00:09:00.000 --> 00:09:02.000\nEarlier\n\n00:10:00.000 --> 00:10:02.000\nLater\n');
+    const events = exportToAss([], captions).split('\n').filter(line => line.startsWith('Dialogue:'));
+    assert.deepEqual(events, ['Dialogue: 0,0:09:00.00,0:09:02.00,Narrator,,0,0,0,,Earlier', 'Dialogue: 0,0:10:00.00,0:10:02.00,Narrator,,0,0,0,,Later']);
+});
+
+test('writes the same timecodes for transcripts as the client export', () => {
+    const transcript = [{ speaker: 'Ana', startTime: '00:00:01.5', endTime: '00:00:02,25', text: 'Hi <all>' }];
+    assert.equal(exportToSrt(transcript, []), '1\n00:00:01,500 --> 00:00:02,250\nAna: Hi <all>\n');
+    assert.equal(exportToVtt(transcript, []), 'WEBVTT\n\n00:00:01.500 --> 00:00:02.250\n<v Ana>Hi &lt;all&gt;\n');
+});
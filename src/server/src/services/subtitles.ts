@@ -0,0 +1,131 @@
+import type { Caption, DiarizedSegment, Speaker } from '@screenguide/shared';
+import { Timecode, byStartTime } from '@screenguide/shared/timecode';
+
+// Same output as the client's session export, so files written by the CLI match those in ScreenGuide-Session.zip.
+
+// Used in order of first appearance for speakers without a colour of their own.
+const SPEAKER_COLORS = ['#ffff00', '#00ff00', '#00ffff', '#ff0000', '#ff00ff'];
+// ASS colours are `&HBBGGRR&`.
+const toAssColor = (hex: string) => `&H${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}&`.toUpperCase();
+
+interface TimedWord { text: string; start: Timecode; end: Timecode; space: string; }
+
+// Words take their text from the segment so line breaks survive; a word list that no longer lines up with the text is ignored.
+const timedWords = ({ text, words }: DiarizedSegment): TimedWord[] | undefined => {
+    const parts = text.trim().split(/(\s+)/);
+    if (!words?.length || words.length !== (parts.length + 1) / 2) return undefined;
+    return words.map((word, i) => ({
+        text: parts[i * 2], start: Timecode.parseOrZero(word.startTime), end: Timecode.parseOrZero(word.endTime),
+        space: i === words.length - 1 ? '' : parts[i * 2 + 1].includes('\n') ? '\n' : ' ',
+    }));
+};
+
+const assText = (text: string) => text.replace(/\n/g, '\\N');
+
+// `{\k}` durations are centiseconds that run on from the start of the line, so a pause before a word is an empty syllable.
+const assKaraoke = (start: Timecode, words: TimedWord[]) => {
+    let cursor = Math.round(start.ms / 10);
+    return words.map(word => {
+        const from = Math.max(Math.round(word.start.ms / 10), cursor);
+        const to = Math.max(Math.round(word.end.ms / 10), from);
+        const pause = from > cursor ? `{\\k${from - cursor}}` : '';
+        cursor = to;
+        return `${pause}{\\k${to - from}}${assText(word.text + word.space)}`;
+    }).join('');
+};
+
+// Timed words become karaoke syllables.
+export function exportToAss(transcript: DiarizedSegment[], captions: Caption[], speakers: Speaker[] = []): string {
+    const names = [...new Set(transcript.map(t => t.speaker))];
+    const speakerStyles = names.map((name, i) => {
+        const color = speakers.find(s => s.name === name)?.color || SPEAKER_COLORS[i % SPEAKER_COLORS.length];
+        return `Style: ${name.replace(/,/g, '')},Arial,20,&H00FFFFFF,${toAssColor(color)},&H00000000,&H64000000,-1,0,0,0,100,100,0,0,1,2,2,2,10,10,10,1`;
+    }).join('\n');
+    const allEvents = [
+        ...transcript.map(t => {
+            const words = timedWords(t);
+            return { ...t, style: t.speaker.replace(/,/g, ''), text: words ? assKaraoke(Timecode.parseOrZero(t.startTime), words) : assText(t.text) };
+        }),
+        ...captions.map(c => ({ ...c, style: 'Narrator', text: assText(c.text) })),
+    ].filter(e => e.startTime && e.endTime).sort(byStartTime);
+    const events = allEvents.map(e => `Dialogue: 0,${Timecode.parseOrZero(e.startTime).format('ass')},${Timecode.parseOrZero(e.endTime).format('ass')},${e.style},,0,0,0,,${e.text}`).join('\n');
+    return `[Script Info]
+Title: ScreenGuide AI Export
+ScriptType: v4.00+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Default,Arial,20,&H00FFFFFF,&H000000FF,&H00000000,&H64000000,-1,0,0,0,100,100,0,0,1,2,2,2,10,10,10,1
+Style: Narrator,Arial,18,&H00B4B4B4,&H00FFFFFF,&H00000000,&H64000000,-1,0,0,0,100,100,0,0,1,2,0,2,10,10,10,1
+${speakerStyles}
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+${events}`;
+}
+
+export const exportToJson = (transcript: DiarizedSegment[], captions: Caption[]): string =>
+    JSON.stringify({ diarizedTranscript: transcript, avCaptions: captions }, null, 2);
+
+export type SubtitleSource = 'transcript' | 'captions' | 'both';
+/** `voice` writes WebVTT `<v Speaker>` tags; SRT has no equivalent and falls back to `prefix`. */
+export type SpeakerLabels = 'prefix' | 'voice' | 'none';
+
+export interface SubtitleOptions {
+    source?: SubtitleSource;
+    speakers?: SpeakerLabels;
+}
+
+interface Cue { start: Timecode; end: Timecode; text: string; speaker?: string; words?: TimedWord[]; }
+
+// Blank lines end a cue in both formats, so they are collapsed; cues without a positive duration are dropped.
+const collectCues = (transcript: DiarizedSegment[], captions: Caption[], source: SubtitleSource): Cue[] => [
+    ...(source === 'captions' ? [] : transcript.map(t => ({ start: Timecode.parseOrZero(t.startTime), end: Timecode.parseOrZero(t.endTime), text: t.text, speaker: t.speaker, words: timedWords(t) }))),
+    ...(source === 'transcript' ? [] : captions.map(c => ({ start: Timecode.parseOrZero(c.startTime), end: Timecode.parseOrZero(c.endTime), text: c.text }))),
+].map(cue => ({ ...cue, text: cue.text.replace(/\r/g, '').replace(/\n\s*\n/g, '\n').trim() }))
+    .filter(cue => cue.text && cue.end.compare(cue.start) > 0)
+    .sort((a, b) => a.start.compare(b.start) || a.end.compare(b.end));
+
+// Many SRT players show one cue at a time, so overlaps are split at every boundary and the active texts stacked.
+const flattenOverlaps = (cues: Cue[]): Cue[] => {
+    const bounds = [...new Map(cues.flatMap(cue => [cue.start, cue.end]).map(time => [time.ms, time])).values()].sort((a, b) => a.compare(b));
+    const flat: Cue[] = [];
+    for (let i = 0; i < bounds.length - 1; i++) {
+        const [start, end] = [bounds[i], bounds[i + 1]];
+        const text = cues.filter(cue => cue.start.compare(end) < 0 && cue.end.compare(start) > 0).map(cue => cue.text).join('\n');
+        if (!text) continue;
+        const previous = flat[flat.length - 1];
+        if (previous && previous.end.equals(start) && previous.text === text) previous.end = end;
+        else flat.push({ start, end, text });
+    }
+    return flat;
+};
+
+export function exportToSrt(transcript: DiarizedSegment[], captions: Caption[], { source = 'both', speakers = 'prefix' }: SubtitleOptions = {}): string {
+    const cues = collectCues(transcript, captions, source)
+        .map(cue => ({ ...cue, text: speakers !== 'none' && cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text }));
+    return flattenOverlaps(cues)
+        .map((cue, index) => `${index + 1}\n${cue.start.format('srt')} --> ${cue.end.format('srt')}\n${cue.text}`)
+        .join('\n\n') + '\n';
+}
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Inline timestamps must fall inside the cue and increase, so words starting with the cue or out of order carry none.
+const vttKaraoke = ({ start, end, words }: Cue) => {
+    let last = start;
+    return words!.map(word => {
+        const stamp = word.start.compare(last) > 0 && word.start.compare(end) < 0 ? `<${word.start}>` : '';
+        if (stamp) last = word.start;
+        return stamp + escapeVtt(word.text) + word.space;
+    }).join('');
+};
+
+// WebVTT renders overlapping cues stacked, so cues are kept as they are, in the start order the format requires.
+// Timed words get inline timestamps, which players show as karaoke.
+export function exportToVtt(transcript: DiarizedSegment[], captions: Caption[], { source = 'both', speakers = 'voice' }: SubtitleOptions = {}): string {
+    const cues = collectCues(transcript, captions, source).map(cue => {
+        const text = cue.words ? vttKaraoke(cue) : escapeVtt(cue.text);
+        if (!cue.speaker || speakers === 'none') return { ...cue, text };
+        return { ...cue, text: speakers === 'voice' ? `<v ${escapeVtt(cue.speaker)}>${text}` : `${escapeVtt(cue.speaker)}: ${text}` };
+    });
+    return ['WEBVTT', ...cues.map(cue => `${cue.start} --> ${cue.end}\n${cue.text}`)].join('\n\n') + '\n';
+}
@@ -0,0 +1,131 @@
+import type { Caption, DiarizedSegment, TranscriptWord } from './llm';
+import { AppError } from './errors';
+import { Timecode } from '@screenguide/shared/timecode';
+
+/** Thrown when a model answer cannot be used at all, e.g. because it skipped the function call. */
+export class StructuredOutputError extends AppError {
+    constructor(public violations: string[]) {
+        super('malformed_output', `The model returned unusable output: ${violations.join(' ')}`);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+export interface ValidationResult<T> {
+    /** Rows that passed validation, normalised, sorted and clipped. */
+    items: T[];
+    /** Problems that could not be repaired locally and should be sent back to the model. */
+    violations: string[];
+}
+
+interface ValidationOptions {
+    /** Length of the recording in seconds, when known. */
+    duration?: number;
+    /** Whether rows need a `speaker` field (diarized transcript) or not (captions). */
+    requireSpeaker: boolean;
+}
+
+interface TimedRow { row: number; start: Timecode; end: Timecode; speaker: string; text: string; words?: unknown; }
+
+function validateRows(raw: unknown, { duration, requireSpeaker }: ValidationOptions): { rows: TimedRow[]; violations: string[] } {
+    if (!Array.isArray(raw)) return { rows: [], violations: ['The result must be an array of segments.'] };
+    const violations: string[] = [];
+    const rows: TimedRow[] = [];
+
+    raw.forEach((item, index) => {
+        const row = index + 1;
+        if (!item || typeof item !== 'object') {
+            violations.push(`Row ${row} is not an object.`);
+            return;
+        }
+        const { speaker, startTime, endTime, text, words } = item as Record<string, unknown>;
+        if (typeof text !== 'string' || !text.trim()) return; // Empty rows carry no information and are dropped.
+        if (requireSpeaker && (typeof speaker !== 'string' || !speaker.trim())) {
+            violations.push(`Row ${row} has no speaker label.`);
+            return;
+        }
+        const start = Timecode.tryParse(startTime);
+        const end = Timecode.tryParse(endTime);
+        if (start === null || end === null) {
+            violations.push(`Row ${row} has an invalid timecode ("${startTime}" - "${endTime}"); use HH:MM:SS.sss.`);
+            return;
+        }
+        if (end.compare(start) < 0) {
+            violations.push(`Row ${row} ends (${end}) before it starts (${start}).`);
+            return;
+        }
+        const mediaEnd = duration !== undefined ? Timecode.fromSeconds(duration) : undefined;
+        if (mediaEnd && start.compare(mediaEnd) >= 0) {
+            violations.push(`Row ${row} starts at ${start}, after the recording ends at ${mediaEnd}.`);
+            return;
+        }
+        rows.push({ row, start, end: mediaEnd ? end.clamp(start, mediaEnd) : end, speaker: typeof speaker === 'string' ? speaker.trim() : '', text: text.trim(), words });
+    });
+
+    rows.sort((a, b) => a.start.compare(b.start) || a.end.compare(b.end));
+
+    // Overlaps are trimmed where they cannot be intentional: captions never overlap, and one speaker cannot talk over themselves.
+    for (let i = 1; i < rows.length; i++) {
+        const previous = rows[i - 1];
+        const current = rows[i];
+        const sameLane = !requireSpeaker || previous.speaker === current.speaker;
+        if (sameLane && previous.end.compare(current.start) > 0) previous.end = current.start.clamp(previous.start, previous.end);
+    }
+
+    return { rows, violations };
+}
+
+const tokens = (text: string) => text.split(/\s+/).filter(Boolean);
+
+// Word timings are optional detail, so a list that does not line up with the text is dropped rather than sent back for
+// repair. Words take their text from the segment, which is what the editor keeps them in step with.
+function validateWords({ start, end, text, words }: TimedRow): TranscriptWord[] | undefined {
+    const texts = tokens(text);
+    if (!Array.isArray(words) || words.length !== texts.length) return undefined;
+    const timed: TranscriptWord[] = [];
+    let previous = start;
+    for (const [index, word] of words.entries()) {
+        const { startTime, endTime, confidence } = (word ?? {}) as Record<string, unknown>;
+        const wordStart = Timecode.tryParse(startTime)?.clamp(start, end);
+        const wordEnd = Timecode.tryParse(endTime)?.clamp(start, end);
+        if (!wordStart || !wordEnd || wordEnd.compare(wordStart) < 0 || wordStart.compare(previous) < 0) return undefined;
+        previous = wordStart;
+        timed.push({
+            text: texts[index], startTime: wordStart.toString(), endTime: wordEnd.toString(),
+            ...(typeof confidence === 'number' && Number.isFinite(confidence) ? { confidence: Math.min(1, Math.max(0, confidence)) } : {}),
+        });
+    }
+    return timed;
+}
+
+export function validateTranscript(raw: unknown, duration?: number): ValidationResult<DiarizedSegment> {
+    const { rows, violations } = validateRows(raw, { duration, requireSpeaker: true });
+    return {
+        items: rows.map(r => {
+            const words = validateWords(r);
+            return { speaker: r.speaker, startTime: r.start.toString(), endTime: r.end.toString(), text: r.text, ...(words ? { words } : {}) };
+        }),
+        violations,
+    };
+}
+
+export function validateCaptions(raw: unknown, duration?: number): ValidationResult<Caption> {
+    const { rows, violations } = validateRows(raw, { duration, requireSpeaker: false });
+    return {
+        items: rows.map(r => ({ startTime: r.start.toString(), endTime: r.end.toString(), text: r.text })),
+        violations,
+    };
+}
+
+/** Turns validation problems into an instruction appended to the next prompt. */
+export const repairInstructions = (violations: string[], functionName: string) =>
+    `\n\nYour previous answer had these problems:\n${violations.map(v => `- ${v}`).join('\n')}\nCall '${functionName}' again with the complete, corrected list. Every timecode must be HH:MM:SS.sss, rows must be in chronological order and each segment must end after it starts.`;
+
+/** Rewrites timecodes sent by clients as `HH:MM:SS.mmm`, rejecting rows whose timecodes do not parse. */
+export function normaliseTimecodes<T extends { startTime: string; endTime: string }>(rows: T[], label = 'Row'): T[] {
+    return rows.map((row, index) => {
+        const start = Timecode.tryParse(row.startTime);
+        const end = Timecode.tryParse(row.endTime);
+        if (!start || !end) throw new AppError('invalid_request', `${label} ${index + 1} has an invalid timecode ("${row.startTime}" - "${row.endTime}"); use HH:MM:SS.mmm.`);
+        return { ...row, startTime: start.toString(), endTime: end.toString() };
+    });
+}
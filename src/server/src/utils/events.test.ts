@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { subscribeWithSnapshot } from './events';
+
+interface Update { status: string; progress: number; }
+
+const channel = () => {
+    const events = new EventEmitter();
+    const subscribe = (listener: (update: Update) => void) => {
+        events.on('update', listener);
+        return () => events.off('update', listener);
+    };
+    return { events, subscribe };
+};
+
+test('delivers a final update published while the snapshot is read', async () => {
+    const { events, subscribe } = channel();
+    // The read sees the job still running; it finishes before the read returns.
+    const read = async () => {
+        const stale = { status: 'running', progress: 90 };
+        events.emit('update', { status: 'done', progress: 100 });
+        return stale;
+    };
+    const { snapshot, follow } = await subscribeWithSnapshot(read, subscribe);
+    const received: Update[] = [snapshot];
+    follow(update => received.push(update));
+    assert.deepEqual(received.map(update => update.status), ['running', 'done']);
+});
+
+test('passes later updates straight through and stops after unsubscribing', async () => {
+    const { events, subscribe } = channel();
+    const { follow, unsubscribe } = await subscribeWithSnapshot(async () => ({ status: 'queued', progress: 0 }), subscribe);
+    const received: Update[] = [];
+    follow(update => received.push(update));
+    events.emit('update', { status: 'running', progress: 10 });
+    unsubscribe();
+    events.emit('update', { status: 'done', progress: 100 });
+    assert.deepEqual(received, [{ status: 'running', progress: 10 }]);
+    assert.equal(events.listenerCount('update'), 0);
+});
+
+test('unsubscribes when the read fails', async () => {
+    const { events, subscribe } = channel();
+    await assert.rejects(subscribeWithSnapshot(async () => { throw new Error('Job not found'); }, subscribe), /Job not found/);
+    assert.equal(events.listenerCount('update'), 0);
+});
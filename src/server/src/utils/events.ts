@@ -0,0 +1,32 @@
+export interface SnapshotSubscription<T> {
+    snapshot: T;
+    /** Passes on the updates published since the subscription began, then each new one as it arrives. */
+    follow: (listener: (update: T) => void) => void;
+    unsubscribe: () => void;
+}
+
+/**
+ * Subscribes before reading the current state, so an update published while `read` runs is buffered rather than lost.
+ * Buffered updates may predate the snapshot; the caller decides which of them are still news.
+ */
+export async function subscribeWithSnapshot<T>(read: () => Promise<T>, subscribe: (listener: (update: T) => void) => () => void): Promise<SnapshotSubscription<T>> {
+    let buffered: T[] = [];
+    let deliver: ((update: T) => void) | null = null;
+    const unsubscribe = subscribe(update => deliver ? deliver(update) : buffered.push(update));
+    try {
+        const snapshot = await read();
+        return {
+            snapshot,
+            follow: listener => {
+                deliver = listener;
+                const pending = buffered;
+                buffered = [];
+                pending.forEach(listener);
+            },
+            unsubscribe,
+        };
+    } catch (error) {
+        unsubscribe();
+        throw error;
+    }
+}
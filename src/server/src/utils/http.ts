@@ -0,0 +1,31 @@
+import { Response } from 'express';
+import { toAppError } from '../services/errors';
+
+/** Answers with the status for the error's code and an `ApiError` body. */
+export const handleError = (res: Response, error: unknown, defaultMessage: string) => {
+    // Requests aborted because the client went away have nobody left to answer.
+    if (error instanceof Error && error.name === 'AbortError') return;
+    console.error(`Error in ${defaultMessage}:`, error);
+    const appError = toAppError(error, defaultMessage);
+    if (appError.retryAfter !== undefined) res.set('Retry-After', String(appError.retryAfter));
+    res.status(appError.status).json(appError.toJSON());
+}
+
+/** Returns a signal that aborts when the client disconnects before the response has been sent, so model calls stop with it. */
+export const abortOnClose = (res: Response): AbortSignal => {
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+    return controller.signal;
+};
+
+/** Switches the response to a Server-Sent Events stream and returns a writer for named events. */
+export const openEventStream = (res: Response) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    res.flushHeaders();
+    return (data: unknown, event?: string) => {
+        if (event) res.write(`event: ${event}\n`);
+        res.write(`data: ${JSON.stringify(data)}\n\n`);
+    };
+};
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import { validate } from './validate';
+
+// Runs the middleware against a bare request and reports what reached the client, if anything.
+const run = (handler: ReturnType<typeof validate>, body: unknown, params: Record<string, string> = {}) => {
+    const sent: { status?: number; payload?: any; next: boolean } = { next: false };
+    const res = {
+        statusCode: 200,
+        status(code: number) { sent.status = code; this.statusCode = code; return this; },
+        json(payload: unknown) { sent.payload = payload; return this; },
+    };
+    handler({ body, params, method: 'PUT', originalUrl: '/test' } as unknown as Request, res as unknown as Response, () => { sent.next = true; });
+    return { sent, res: res as unknown as Response };
+};
+
+test('passes a body that matches its schema on to the route', () => {
+    const { sent } = run(validate({ body: 'CaptionsUpdate' }), { captions: [{ startTime: '00:00:01.000', endTime: '00:00:02.000', text: 'Hello' }] });
+    assert.equal(sent.next, true);
+    assert.equal(sent.status, undefined);
+});
+
+test('rejects a body that breaks its schema as invalid_request', () => {
+    const { sent } = run(validate({ body: 'CaptionsUpdate' }), { captions: [{ startTime: '00:00:01.000', text: 'Hello' }] });
+    assert.equal(sent.next, false);
+    assert.equal(sent.status, 400);
+    assert.equal(sent.payload.code, 'invalid_request');
+    assert.match(sent.payload.error, /body\.captions\.0 must have required property 'endTime'/);
+});
+
+test('rejects a path parameter outside its enum before reading the body', () => {
+    const handler = validate({ params: { format: 'OutputFormat' }, body: 'DocumentRequest' });
+    assert.equal(run(handler, { content: '# Guide' }, { format: 'slides' }).sent.next, true);
+    const { sent } = run(handler, {}, { format: 'poster' });
+    assert.equal(sent.status, 400);
+    assert.match(sent.payload.error, /params\.format must be equal to one of the allowed values/);
+});
+
+test('replaces a successful response that breaks its schema with an internal error outside production', () => {
+    const { sent, res } = run(validate({ response: 'GuideResponse' }), {});
+    assert.equal(sent.next, true);
+    const original = console.error;
+    console.error = () => {};
+    try {
+        res.json({ text: 'missing content' });
+    } finally {
+        console.error = original;
+    }
+    assert.equal(sent.status, 500);
+    assert.equal(sent.payload.code, 'internal');
+});
+
+test('leaves error responses alone', () => {
+    const { sent, res } = run(validate({ response: 'GuideResponse' }), {});
+    res.status(404).json({ error: 'Not found', code: 'not_found', retryable: false });
+    assert.equal(sent.status, 404);
+    assert.equal(sent.payload.code, 'not_found');
+});
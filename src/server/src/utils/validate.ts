@@ -0,0 +1,58 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { RequestHandler } from 'express';
+import { openApiDocument, SchemaName } from '../openapi';
+import { AppError } from '../services/errors';
+
+// OpenAPI 3.1 schemas are JSON Schema, so the document's components are compiled as they are.
+const ajv = new Ajv({ strict: false, allErrors: true, validateFormats: false });
+ajv.addSchema({ $id: 'screenguide', components: openApiDocument.components });
+
+// A response that breaks the contract is a server bug: outside production it fails loudly, in production it is only logged.
+const STRICT_RESPONSES = process.env.NODE_ENV !== 'production';
+
+const validator = (name: SchemaName): ValidateFunction => {
+    const validate = ajv.getSchema(`screenguide#/components/schemas/${name}`);
+    if (!validate) throw new Error(`Unknown schema: ${name}`);
+    return validate;
+};
+
+const describe = (errors: ErrorObject[] | null | undefined, root: string) =>
+    (errors || []).map(e => `${root}${e.instancePath.replace(/\//g, '.')} ${e.message}`).join('; ');
+
+/**
+ * Validates path parameters, the JSON request body and, for successful responses, the JSON payload against schemas
+ * from the OpenAPI document.
+ */
+export const validate = ({ params, body, response }: { params?: Record<string, SchemaName>; body?: SchemaName; response?: SchemaName }): RequestHandler => {
+    const checkParams = Object.entries(params || {}).map(([name, schema]) => [name, validator(schema)] as const);
+    const checkBody = body && validator(body);
+    const checkResponse = response && validator(response);
+    return (req, res, next) => {
+        for (const [name, check] of checkParams) {
+            if (!check(req.params[name])) {
+                const error = new AppError('invalid_request', `Invalid request: ${describe(check.errors, `params.${name}`)}`);
+                return res.status(error.status).json(error.toJSON());
+            }
+        }
+        if (checkBody && !checkBody(req.body)) {
+            const error = new AppError('invalid_request', `Invalid request: ${describe(checkBody.errors, 'body')}`);
+            return res.status(error.status).json(error.toJSON());
+        }
+        if (checkResponse) {
+            const send = res.json.bind(res);
+            res.json = (payload: unknown) => {
+                // Validate the serialised form, since that is what clients receive (Dates become strings).
+                if (res.statusCode < 300 && !checkResponse(JSON.parse(JSON.stringify(payload ?? null)))) {
+                    const message = `Response does not match the ${response} schema: ${describe(checkResponse.errors, 'response')}`;
+                    console.error(`${req.method} ${req.originalUrl}: ${message}`);
+                    if (STRICT_RESPONSES) {
+                        res.status(500);
+                        return send(new AppError('internal', message).toJSON());
+                    }
+                }
+                return send(payload);
+            };
+        }
+        next();
+    };
+};
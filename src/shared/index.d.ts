@@ -0,0 +1,279 @@
+/**
+ * Types shared by the client and the server. They describe the JSON exchanged over `/api/v1`
+ * and match the schemas in the server's OpenAPI document. This file holds declarations only, so both
+ * workspaces can import it with `import type`; the runtime helpers live in `timecode.ts`.
+ */
+
+/**
+ * A point in the recording written as `HH:MM:SS.mmm`, e.g. "00:01:23.456". Both workspaces read, compare
+ * and format these through the `Timecode` class from `@screenguide/shared/timecode` rather than handling the strings directly.
+ */
+export type TimecodeString = string;
+
+export interface Caption {
+  startTime: TimecodeString;
+  endTime: TimecodeString;
+  text: string;
+}
+
+/** One word of a segment with its own timing; `confidence` runs from 0 to 1 when the transcriber reports it. */
+export interface TranscriptWord {
+  text: string;
+  startTime: TimecodeString;
+  endTime: TimecodeString;
+  confidence?: number;
+}
+
+export interface DiarizedSegment {
+  speaker: string;
+  startTime: TimecodeString;
+  endTime: TimecodeString;
+  text: string;
+  /** One entry per whitespace-separated word of `text`, in order, when word timings are known. */
+  words?: TranscriptWord[];
+}
+
+/** What the user has said about one voice in the transcript; `name` is the `speaker` of their segments. */
+export interface Speaker {
+  name: string;
+  /** Their part in the recording, e.g. "Support engineer". */
+  role?: string;
+  /** `#rrggbb`, used for their lines in ASS subtitles. */
+  color?: string;
+}
+
+/** A project term the model should always spell one way, e.g. a product name or CLI flag. */
+export interface GlossaryTerm {
+  /** The preferred spelling. */
+  term: string;
+  /** Spellings that should be replaced with `term`. */
+  variants: string[];
+}
+
+export type OutputFormat = 'guide' | 'article' | 'slides' | 'diagram';
+
+/**
+ * Why a request failed. Each code maps to one HTTP status:
+ * invalid_request 400, not_found 404, payload_too_large 413, unsupported_media_type 415,
+ * safety_blocked 422, rate_limited 429, internal 500, malformed_output 502,
+ * provider_unavailable 503, model_timeout 504.
+ */
+export type ErrorCode =
+  | 'invalid_request'
+  | 'not_found'
+  | 'payload_too_large'
+  | 'unsupported_media_type'
+  | 'safety_blocked'
+  | 'rate_limited'
+  | 'internal'
+  | 'malformed_output'
+  | 'provider_unavailable'
+  | 'model_timeout';
+
+export interface ApiError {
+  error: string;
+  code: ErrorCode;
+  /** Whether sending the same request again may succeed. */
+  retryable: boolean;
+  /** Seconds to wait before retrying, when the provider said so. */
+  retryAfter?: number;
+}
+
+export interface MediaInfo {
+  mediaId: string;
+  mimeType: string;
+  size: number;
+  duration?: number;
+  originalName?: string;
+  createdAt?: string;
+}
+
+/** Skips the result cache lookup; the fresh result still replaces the cached one. */
+export interface CacheControl {
+  bypassCache?: boolean;
+}
+
+export interface AnalysisRequest extends CacheControl {
+  mediaId: string;
+  description?: string;
+  userPrompt?: string;
+  glossary?: GlossaryTerm[];
+}
+
+export interface GuideRequest extends CacheControl {
+  mediaId: string;
+  transcript: string;
+  description: string;
+  prompt: string;
+  format: OutputFormat;
+  /** Lets the document refer to people by name and role. */
+  speakers?: Speaker[];
+  glossary?: GlossaryTerm[];
+}
+
+export interface GuideResponse {
+  content: string;
+}
+
+export interface RewriteRequest {
+  textToRewrite: string;
+  prompt: string;
+}
+
+export interface RewriteResponse {
+  rewrittenText: string;
+}
+
+export interface SummaryRequest extends CacheControl {
+  mediaId: string;
+  transcript: string;
+  description: string;
+}
+
+export interface SummaryResponse {
+  summary: string;
+}
+
+export type FrameFormat = 'png' | 'jpeg' | 'webp';
+
+export interface FrameOptions {
+  format: FrameFormat;
+  width?: number;
+  height?: number;
+  quality?: number; // 1-100, ignored for PNG
+}
+
+export interface FramesRequest extends FrameOptions {
+  timecodes: TimecodeString[];
+}
+
+export interface ExtractedFrame {
+  timecode: TimecodeString;
+  mimeType?: string;
+  data?: string; // base64
+  error?: string;
+}
+
+export interface FramesResponse {
+  frames: ExtractedFrame[];
+}
+
+/** Peak amplitudes (0-1) of the recording's audio, `peaksPerSecond` per second from the start. */
+export interface Waveform {
+  peaksPerSecond: number;
+  peaks: number[];
+}
+
+export type JobType = 'transcribe' | 'captions' | 'guide';
+export type JobStatus = 'queued' | 'running' | 'failed' | 'done' | 'cancelled';
+
+export interface ChunkOptions {
+  windowSeconds?: number;
+  overlapSeconds?: number;
+}
+
+export interface JobParams extends CacheControl {
+  mediaId: string;
+  description?: string;
+  userPrompt?: string;
+  glossary?: GlossaryTerm[];
+  projectId?: string;
+  recordingId?: string;
+  /** true forces windowed processing, false disables it; unset chunks long recordings automatically. */
+  chunked?: boolean;
+  chunkOptions?: ChunkOptions;
+  /** Guide jobs only. */
+  transcript?: string;
+  prompt?: string;
+  format?: OutputFormat;
+  speakers?: Speaker[];
+}
+
+export interface JobRequest {
+  type: JobType;
+  params: JobParams;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  stage: string;
+  progress: number; // 0-100
+  result: unknown;
+  error: string | null;
+  errorCode: ErrorCode | null;
+  projectId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface ProjectFields {
+  name?: string;
+  description?: string;
+  userPrompt?: string;
+  outputFormat?: string;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  description: string;
+  userPrompt: string;
+  outputFormat: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RecordingFields {
+  mediaId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface Recording extends RecordingFields {
+  id: string;
+  transcript: DiarizedSegment[];
+  captions: Caption[];
+  speakers: Speaker[];
+}
+
+export interface DocumentRequest {
+  content: string;
+  summary?: string;
+  recordingId?: string | null;
+}
+
+export interface GeneratedDocument {
+  id: string;
+  recordingId: string | null;
+  format: string;
+  content: string;
+  summary: string;
+  updatedAt: string;
+}
+
+export interface Project extends ProjectSummary {
+  recordings: Recording[];
+  documents: GeneratedDocument[];
+  glossary: GlossaryTerm[];
+}
+
+export interface CacheEntry {
+  key: string;
+  operation: string;
+  mediaHash: string;
+  provider: string;
+  model: string;
+  params: string;
+  hits: number;
+  createdAt: string;
+  lastHitAt: string | null;
+}
+
+export interface PurgeResponse {
+  purged: number;
+}
@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { Timecode, TimecodeError, byStartTime, findImagePlaceholders, replaceImagePlaceholders } from './timecode';
+
+test('reads the forms transcripts, subtitle files and the API use', () => {
+  assert.equal(Timecode.parse('01:02:03.456').ms, 3723456);
+  assert.equal(Timecode.parse('00:00:01,250').ms, 1250);
+  assert.equal(Timecode.parse('1:02.5').ms, 62500);
+  assert.equal(Timecode.parse('0:00:04.07').ms, 4070);
+  assert.equal(Timecode.parse('90').ms, 90000);
+  assert.equal(Timecode.parse(1.5).ms, 1500);
+  assert.equal(Timecode.parse('00:00:01:12', 24).ms, 1500);
+});
+
+test('treats a fraction as a decimal, so .5 is half a second', () => {
+  assert.equal(Timecode.parse('00:00:00.5').ms, 500);
+  assert.equal(Timecode.parse('00:00:00.05').ms, 50);
+});
+
+test('rejects malformed timecodes', () => {
+  for (const value of ['', 'abc', '1:60.000', '1:99:00', '00:00:01:12', -1, NaN, null]) {
+    assert.equal(Timecode.tryParse(value), null, String(value));
+  }
+  assert.throws(() => Timecode.parse('12:xx'), TimecodeError);
+  assert.equal(Timecode.parseOrZero('12:xx'), Timecode.ZERO);
+});
+
+test('round-trips every format through parse', () => {
+  const times = [0, 1, 999, 59999, 61500, 3599999, 3723450, 36000000];
+  for (const ms of times) {
+    const time = Timecode.fromMs(ms);
+    assert.equal(Timecode.parse(time.toString()).ms, ms);
+    assert.equal(Timecode.parse(time.format('srt')).ms, ms);
+    assert.equal(Timecode.parse(JSON.parse(JSON.stringify(time))).ms, ms);
+  }
+  // ASS and SMPTE keep centiseconds and frames, so they round-trip on their own grid.
+  for (const ms of [0, 10, 61500, 3723450]) assert.equal(Timecode.parse(Timecode.fromMs(ms).format('ass')).ms, ms);
+  for (const frames of [0, 1, 23, 24, 86399]) {
+    const time = Timecode.fromFrames(frames, 24);
+    assert.equal(Timecode.parse(time.format('smpte', 24), 24).toFrames(24), frames);
+  }
+});
+
+test('formats each style', () => {
+  const time = Timecode.parse('01:02:03.456');
+  assert.equal(time.toString(), '01:02:03.456');
+  assert.equal(time.format('srt'), '01:02:03,456');
+  assert.equal(time.format('ass'), '1:02:03.46');
+  assert.equal(time.format('smpte', 25), '01:02:03:11');
+  assert.throws(() => time.format('smpte'), RangeError);
+});
+
+test('does arithmetic in milliseconds and stops at zero', () => {
+  const time = Timecode.parse('00:00:10.000');
+  assert.equal(time.plus(0.1).plus(0.2).toString(), '00:00:10.300');
+  assert.equal(time.minus(Timecode.parse('00:00:02.500')).toString(), '00:00:07.500');
+  assert.equal(time.minus(20).ms, 0);
+  assert.equal(time.clamp(Timecode.ZERO, Timecode.parse('5')).seconds, 5);
+  assert.equal(Timecode.parse('00:00:01.021').snapToFrame(24).toString(), '00:00:01.042');
+});
+
+test('orders 9:00 before 10:00, which string comparison gets wrong', () => {
+  const rows = [
+    { startTime: '10:00', endTime: '10:05', text: 'second' },
+    { startTime: '9:00', endTime: '9:05', text: 'first' },
+    { startTime: '00:10:00.000', endTime: '00:10:02.000', text: 'shorter second' },
+  ];
+  assert.ok('10:00'.localeCompare('9:00') < 0);
+  assert.deepEqual([...rows].sort(byStartTime).map(row => row.text), ['first', 'shorter second', 'second']);
+  assert.ok(Timecode.parse('9:00').compare(Timecode.parse('10:00')) < 0);
+});
+
+test('finds image placeholders with and without a timecode', () => {
+  const content = 'Open the menu. [Image: The menu at 00:01:02.500] Then [Image: the dialog] and [Image: a frame at 99:99]';
+  assert.deepEqual(findImagePlaceholders(content).map(({ description, time }) => [description, time?.toString() ?? null]), [
+    ['The menu', '00:01:02.500'],
+    ['the dialog', null],
+    ['a frame', null],
+  ]);
+  assert.equal(replaceImagePlaceholders(content, ({ description, time }) => time ? `![${description}](${time.ms}.png)` : ''),
+    'Open the menu. ![The menu](62500.png) Then  and ');
+});
@@ -0,0 +1,152 @@
+// Transcripts, captions and the API carry timecodes as `HH:MM:SS.mmm` strings. Anything that compares, shifts or
+// reformats them goes through `Timecode`, on the client and the server alike.
+
+export type TimecodeStyle = 'default' | 'srt' | 'ass' | 'smpte';
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+const frameOf = (ms: number, fps: number) => Math.floor(((ms + 0.5) * fps) / 1000);
+
+// `[[H:]MM:]SS[.fff]`, with `.` or `,` before the fraction. Once a larger unit is present, minutes and seconds stay below 60.
+const CLOCK = /^(?:(?:(\d+):)?(\d{1,2}):)?(\d+)(?:[.,](\d+))?$/;
+// `HH:MM:SS:FF`, read only when the frame rate is known.
+const SMPTE = /^(\d+):(\d{1,2}):(\d{1,2})[:;](\d{1,3})$/;
+
+/** Thrown by `Timecode.parse`; the server reports it as an `invalid_request`. */
+export class TimecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimecodeError';
+  }
+}
+
+/** A point in a recording, kept as whole milliseconds. Instances are immutable and never negative. */
+export class Timecode {
+  static readonly ZERO = new Timecode(0);
+
+  private constructor(readonly ms: number) {}
+
+  static fromMs(ms: number): Timecode {
+    if (!Number.isFinite(ms)) throw new RangeError(`Not a time: ${ms}`);
+    return new Timecode(Math.max(0, Math.round(ms)));
+  }
+
+  static fromSeconds(seconds: number): Timecode {
+    return Timecode.fromMs(seconds * 1000);
+  }
+
+  static fromFrames(frames: number, fps: number): Timecode {
+    if (!(fps > 0)) throw new RangeError(`Invalid frame rate: ${fps}`);
+    return Timecode.fromMs((frames * 1000) / fps);
+  }
+
+  /** Reads `value`, or returns null when it is not a timecode. Numbers are seconds; `fps` also allows `HH:MM:SS:FF`. */
+  static tryParse(value: unknown, fps?: number): Timecode | null {
+    if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? Timecode.fromSeconds(value) : null;
+    if (typeof value !== 'string') return null;
+    const text = value.trim();
+    const smpte = fps && fps > 0 ? text.match(SMPTE) : null;
+    if (smpte) {
+      const [hours, minutes, seconds, frames] = smpte.slice(1).map(Number);
+      if (minutes >= 60 || seconds >= 60 || frames >= Math.ceil(fps!)) return null;
+      return Timecode.fromMs((hours * 3600 + minutes * 60 + seconds) * 1000 + (frames * 1000) / fps!);
+    }
+    const match = text.match(CLOCK);
+    if (!match) return null;
+    const [, hours, minutes, seconds, fraction] = match;
+    if (minutes !== undefined && (seconds.length > 2 || Number(seconds) >= 60)) return null;
+    if (hours !== undefined && Number(minutes) >= 60) return null;
+    const whole = Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds);
+    return Timecode.fromMs(whole * 1000 + Number(`0.${fraction || 0}`) * 1000);
+  }
+
+  static parse(value: unknown, fps?: number): Timecode {
+    const timecode = Timecode.tryParse(value, fps);
+    if (!timecode) throw new TimecodeError(`Invalid timecode "${value}"; use HH:MM:SS.mmm.`);
+    return timecode;
+  }
+
+  // For values already stored in a transcript, where a stray or half-typed timecode should not break rendering or export.
+  static parseOrZero(value: unknown): Timecode {
+    return Timecode.tryParse(value) ?? Timecode.ZERO;
+  }
+
+  get seconds(): number {
+    return this.ms / 1000;
+  }
+
+  /** `offset` is a Timecode or a number of seconds. */
+  plus(offset: Timecode | number): Timecode {
+    return Timecode.fromMs(this.ms + (typeof offset === 'number' ? offset * 1000 : offset.ms));
+  }
+
+  /** Stops at zero rather than going negative. */
+  minus(offset: Timecode | number): Timecode {
+    return Timecode.fromMs(this.ms - (typeof offset === 'number' ? offset * 1000 : offset.ms));
+  }
+
+  /** Negative when this comes first, so `a.compare(b)` can be passed to `sort`. */
+  compare(other: Timecode): number {
+    return this.ms - other.ms;
+  }
+
+  equals(other: Timecode): boolean {
+    return this.ms === other.ms;
+  }
+
+  clamp(min: Timecode, max: Timecode): Timecode {
+    return this.ms < min.ms ? min : this.ms > max.ms ? max : this;
+  }
+
+  /** Index of the frame shown at this time. A frame boundary up to half a millisecond later counts, since `fromFrames` rounds to it. */
+  toFrames(fps: number): number {
+    return frameOf(this.ms, fps);
+  }
+
+  snapToFrame(fps: number): Timecode {
+    return Timecode.fromFrames(Math.round((this.ms * fps) / 1000), fps);
+  }
+
+  /** `default` is `HH:MM:SS.mmm`, `srt` uses a comma, `ass` is `H:MM:SS.cc` and `smpte` is `HH:MM:SS:FF` at `fps`. */
+  format(style: TimecodeStyle = 'default', fps?: number): string {
+    if (style === 'ass') {
+      const cs = Math.round(this.ms / 10);
+      return `${Math.floor(cs / 360000)}:${pad(Math.floor(cs / 6000) % 60)}:${pad(Math.floor(cs / 100) % 60)}.${pad(cs % 100)}`;
+    }
+    const clock = `${pad(Math.floor(this.ms / 3600000))}:${pad(Math.floor(this.ms / 60000) % 60)}:${pad(Math.floor(this.ms / 1000) % 60)}`;
+    if (style === 'smpte') {
+      if (!fps || !(fps > 0)) throw new RangeError('SMPTE timecodes need a frame rate.');
+      return `${clock}:${pad(frameOf(this.ms % 1000, fps))}`;
+    }
+    return `${clock}${style === 'srt' ? ',' : '.'}${pad(this.ms % 1000, 3)}`;
+  }
+
+  toString(): string {
+    return this.format();
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+type Timed = { startTime: string; endTime: string };
+
+/** Orders transcript segments or captions by start, then end. */
+export const byStartTime = (a: Timed, b: Timed) =>
+  Timecode.parseOrZero(a.startTime).compare(Timecode.parseOrZero(b.startTime)) || Timecode.parseOrZero(a.endTime).compare(Timecode.parseOrZero(b.endTime));
+
+// Generated documents mark screenshots as `[Image: description at HH:MM:SS.mmm]`; the timecode is optional.
+const IMAGE_PLACEHOLDER = /\[Image: (.*?)(?:\s+at\s+(\d[\d:.,]*))?\]/gi;
+
+export interface ImagePlaceholder {
+  placeholder: string;
+  description: string;
+  /** Null when the placeholder has no timecode, or one that does not parse. */
+  time: Timecode | null;
+}
+
+export const findImagePlaceholders = (content: string): ImagePlaceholder[] =>
+  [...content.matchAll(IMAGE_PLACEHOLDER)].map(([placeholder, description, timecode]) => ({ placeholder, description, time: Timecode.tryParse(timecode) }));
+
+export const replaceImagePlaceholders = (content: string, replace: (placeholder: ImagePlaceholder) => string) =>
+  content.replace(IMAGE_PLACEHOLDER, (placeholder, description, timecode) => replace({ placeholder, description, time: Timecode.tryParse(timecode) }));
@@ -16,15 +16,5 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-export interface Caption {
-  startTime: string; // e.g., "00:01:23.456"
-  endTime: string;
-  text: string;
-}
-
-export interface DiarizedSegment {
-  speaker: string;
-  startTime: string; // e.g., "00:01:23.456"
-  endTime: string;
-  text: string;
-}
\ No newline at end of file
+// Caption and transcript types are shared with the server; see src/shared.
+export type { Caption, DiarizedSegment } from '../shared';